@@ -0,0 +1,26 @@
+// Serves the engine files downloaded from the engine settings, see src/lib/engine/engineAssets.ts
+const ENGINE_ASSETS_CACHE_NAME = "engine-assets-v1";
+
+self.addEventListener("install", () => self.skipWaiting());
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("fetch", (event) => {
+  const url = new URL(event.request.url);
+  if (
+    event.request.method !== "GET" ||
+    url.origin !== self.location.origin ||
+    !url.pathname.startsWith("/play/engines/")
+  ) {
+    return;
+  }
+
+  event.respondWith(
+    caches
+      .open(ENGINE_ASSETS_CACHE_NAME)
+      .then((cache) => cache.match(url.pathname))
+      .then((cachedResponse) => cachedResponse ?? fetch(event.request))
+  );
+});
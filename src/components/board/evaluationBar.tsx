@@ -1,4 +1,4 @@
-import { Box, Grid2 as Grid, Typography } from "@mui/material";
+import { Box, Grid2 as Grid, Tooltip, Typography } from "@mui/material";
 import { PrimitiveAtom, atom, useAtomValue } from "jotai";
 import { useEffect, useState } from "react";
 import { getEvaluationBarValue } from "@/lib/chess";
@@ -16,7 +16,9 @@ export default function EvaluationBar({
   boardOrientation,
   currentPositionAtom = atom({}),
 }: Props) {
-  const [evalBar, setEvalBar] = useState({
+  const [evalBar, setEvalBar] = useState<
+    ReturnType<typeof getEvaluationBarValue>
+  >({
     whiteBarPercentage: 50,
     label: "0.0",
   });
@@ -30,75 +32,83 @@ export default function EvaluationBar({
     setEvalBar(evalBar);
   }, [position]);
 
+  const wdlTooltip = evalBar.wdl
+    ? `White wins ${evalBar.wdl[0] / 10}%, draw ${evalBar.wdl[1] / 10}%, black wins ${evalBar.wdl[2] / 10}%`
+    : "";
+
   return (
-    <Grid
-      container
-      justifyContent="center"
-      alignItems="center"
-      width="2rem"
-      height={height}
-      border="1px solid black"
-      borderRadius="5px"
-    >
-      <Box
-        sx={{
-          backgroundColor:
-            boardOrientation === Color.White ? "#424242" : "white",
-          transition: "height 1s",
-        }}
-        height={`${
-          boardOrientation === Color.White
-            ? 100 - evalBar.whiteBarPercentage
-            : evalBar.whiteBarPercentage
-        }%`}
-        width="100%"
-        borderRadius={
-          evalBar.whiteBarPercentage === 100 ? "5px" : "5px 5px 0 0"
-        }
+    <Tooltip title={wdlTooltip} placement="right">
+      <Grid
+        container
+        justifyContent="center"
+        alignItems="center"
+        width="2rem"
+        height={height}
+        border="1px solid black"
+        borderRadius="5px"
       >
-        <Typography
-          color={boardOrientation === Color.White ? "white" : "black"}
-          textAlign="center"
+        <Box
+          sx={{
+            backgroundColor:
+              boardOrientation === Color.White ? "#424242" : "white",
+            transition: "height 1s",
+          }}
+          height={`${
+            boardOrientation === Color.White
+              ? 100 - evalBar.whiteBarPercentage
+              : evalBar.whiteBarPercentage
+          }%`}
           width="100%"
+          borderRadius={
+            evalBar.whiteBarPercentage === 100 ? "5px" : "5px 5px 0 0"
+          }
         >
-          {(evalBar.whiteBarPercentage < 50 &&
-            boardOrientation === Color.White) ||
-          (evalBar.whiteBarPercentage >= 50 && boardOrientation === Color.Black)
-            ? evalBar.label
-            : ""}
-        </Typography>
-      </Box>
+          <Typography
+            color={boardOrientation === Color.White ? "white" : "black"}
+            textAlign="center"
+            width="100%"
+          >
+            {(evalBar.whiteBarPercentage < 50 &&
+              boardOrientation === Color.White) ||
+            (evalBar.whiteBarPercentage >= 50 &&
+              boardOrientation === Color.Black)
+              ? evalBar.label
+              : ""}
+          </Typography>
+        </Box>
 
-      <Box
-        sx={{
-          backgroundColor:
-            boardOrientation === Color.White ? "white" : "#424242",
-          transition: "height 1s",
-        }}
-        height={`${
-          boardOrientation === Color.White
-            ? evalBar.whiteBarPercentage
-            : 100 - evalBar.whiteBarPercentage
-        }%`}
-        width={"100%"}
-        display="flex"
-        alignItems="flex-end"
-        borderRadius={
-          evalBar.whiteBarPercentage === 100 ? "5px" : "0 0 5px 5px"
-        }
-      >
-        <Typography
-          color={boardOrientation === Color.White ? "black" : "white"}
-          textAlign="center"
-          width="100%"
+        <Box
+          sx={{
+            backgroundColor:
+              boardOrientation === Color.White ? "white" : "#424242",
+            transition: "height 1s",
+          }}
+          height={`${
+            boardOrientation === Color.White
+              ? evalBar.whiteBarPercentage
+              : 100 - evalBar.whiteBarPercentage
+          }%`}
+          width={"100%"}
+          display="flex"
+          alignItems="flex-end"
+          borderRadius={
+            evalBar.whiteBarPercentage === 100 ? "5px" : "0 0 5px 5px"
+          }
         >
-          {(evalBar.whiteBarPercentage >= 50 &&
-            boardOrientation === Color.White) ||
-          (evalBar.whiteBarPercentage < 50 && boardOrientation === Color.Black)
-            ? evalBar.label
-            : ""}
-        </Typography>
-      </Box>
-    </Grid>
+          <Typography
+            color={boardOrientation === Color.White ? "black" : "white"}
+            textAlign="center"
+            width="100%"
+          >
+            {(evalBar.whiteBarPercentage >= 50 &&
+              boardOrientation === Color.White) ||
+            (evalBar.whiteBarPercentage < 50 &&
+              boardOrientation === Color.Black)
+              ? evalBar.label
+              : ""}
+          </Typography>
+        </Box>
+      </Grid>
+    </Tooltip>
   );
 }
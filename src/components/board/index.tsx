@@ -22,6 +22,8 @@ import PlayerHeader from "./playerHeader";
 import { boardHueAtom, pieceSetAtom } from "./states";
 import tinycolor from "tinycolor2";
 
+const THREAT_ARROW_COLOR = "#e5393599";
+
 export interface Props {
   id: string;
   canPlay?: Color | boolean;
@@ -32,6 +34,7 @@ export interface Props {
   boardOrientation?: Color;
   currentPositionAtom?: PrimitiveAtom<CurrentPosition>;
   showBestMoveArrow?: boolean;
+  threatMove?: string;
   showPlayerMoveIconAtom?: PrimitiveAtom<boolean>;
   showEvaluationBar?: boolean;
 }
@@ -46,6 +49,7 @@ export default function Board({
   boardOrientation = Color.White,
   currentPositionAtom = atom({}),
   showBestMoveArrow = false,
+  threatMove,
   showPlayerMoveIconAtom,
   showEvaluationBar = false,
 }: Props) {
@@ -210,6 +214,15 @@ export default function Board({
   const customArrows: Arrow[] = useMemo(() => {
     const bestMove = position?.lastEval?.bestMove;
     const moveClassification = position?.eval?.moveClassification;
+    const threatArrows = threatMove
+      ? [
+          [
+            threatMove.slice(0, 2),
+            threatMove.slice(2, 4),
+            THREAT_ARROW_COLOR,
+          ] as Arrow,
+        ]
+      : [];
 
     if (
       bestMove &&
@@ -217,7 +230,8 @@ export default function Board({
       moveClassification !== MoveClassification.Best &&
       moveClassification !== MoveClassification.Opening &&
       moveClassification !== MoveClassification.Forced &&
-      moveClassification !== MoveClassification.Perfect
+      moveClassification !== MoveClassification.Perfect &&
+      moveClassification !== MoveClassification.Great
     ) {
       const bestMoveArrow = [
         bestMove.slice(0, 2),
@@ -227,11 +241,11 @@ export default function Board({
           .toHexString(),
       ] as Arrow;
 
-      return [bestMoveArrow];
+      return [bestMoveArrow, ...threatArrows];
     }
 
-    return [];
-  }, [position, showBestMoveArrow, boardHue]);
+    return threatArrows;
+  }, [position, showBestMoveArrow, boardHue, threatMove]);
 
   const SquareRenderer: CustomSquareRenderer = useMemo(() => {
     return getSquareRenderer({
@@ -8,11 +8,13 @@ export const CLASSIFICATION_COLORS: Record<MoveClassification, string> = {
   [MoveClassification.Forced]: "#dbac86",
   [MoveClassification.Splendid]: "#19d4af",
   [MoveClassification.Perfect]: "#3894eb",
+  [MoveClassification.Great]: "#749bbf",
   [MoveClassification.Best]: "#22ac38",
   [MoveClassification.Excellent]: "#22ac38",
   [MoveClassification.Okay]: "#74b038",
   [MoveClassification.Inaccuracy]: "#f2be1f",
   [MoveClassification.Mistake]: "#e69f00",
+  [MoveClassification.Miss]: "#ff7769",
   [MoveClassification.Blunder]: "#df5353",
 };
 
@@ -58,6 +60,11 @@ export const ENGINE_LABELS: Record<
     small: "Stockfish 11",
     sizeMb: 2,
   },
+  [EngineName.Remote]: {
+    full: "Remote engine (UCI bridge)",
+    small: "Remote engine",
+    sizeMb: 0,
+  },
 };
 
 export const PIECE_SETS = [
@@ -1,13 +1,13 @@
-import { isWasmSupported } from "@/lib/engine/shared";
-import { Stockfish11 } from "@/lib/engine/stockfish11";
-import { Stockfish16 } from "@/lib/engine/stockfish16";
-import { Stockfish16_1 } from "@/lib/engine/stockfish16_1";
-import { Stockfish17 } from "@/lib/engine/stockfish17";
+import { createEngine, isWasmSupported } from "@/lib/engine/shared";
 import { UciEngine } from "@/lib/engine/uciEngine";
+import { logErrorToSentry } from "@/lib/sentry";
 import { EngineName } from "@/types/enums";
 import { useEffect, useState } from "react";
 
-export const useEngine = (engineName: EngineName | undefined) => {
+export const useEngine = (
+  engineName: EngineName | undefined,
+  remoteEngineUrl?: string
+) => {
   const [engine, setEngine] = useState<UciEngine | null>(null);
 
   useEffect(() => {
@@ -17,32 +17,15 @@ export const useEngine = (engineName: EngineName | undefined) => {
       return;
     }
 
-    pickEngine(engineName).then((newEngine) => {
-      setEngine((prev) => {
-        prev?.shutdown();
-        return newEngine;
-      });
-    });
-  }, [engineName]);
+    createEngine(engineName, remoteEngineUrl)
+      .then((newEngine) => {
+        setEngine((prev) => {
+          prev?.shutdown();
+          return newEngine;
+        });
+      })
+      .catch((error) => logErrorToSentry(error, { engineName }));
+  }, [engineName, remoteEngineUrl]);
 
   return engine;
 };
-
-const pickEngine = (engine: EngineName): Promise<UciEngine> => {
-  switch (engine) {
-    case EngineName.Stockfish17:
-      return Stockfish17.create(false);
-    case EngineName.Stockfish17Lite:
-      return Stockfish17.create(true);
-    case EngineName.Stockfish16_1:
-      return Stockfish16_1.create(false);
-    case EngineName.Stockfish16_1Lite:
-      return Stockfish16_1.create(true);
-    case EngineName.Stockfish16:
-      return Stockfish16.create(false);
-    case EngineName.Stockfish16NNUE:
-      return Stockfish16.create(true);
-    case EngineName.Stockfish11:
-      return Stockfish11.create();
-  }
-};
@@ -38,7 +38,7 @@ export const getEvaluateGameParams = (game: Chess): EvaluateGameParams => {
     (move) => move.from + move.to + (move.promotion || "")
   );
 
-  return { fens, uciMoves };
+  return { fens, uciMoves, timeControl: game.getHeaders().TimeControl };
 };
 
 export const getGameFromPgn = (pgn: string): Chess => {
@@ -158,16 +158,21 @@ export const moveLineUciToSan = (
 
 export const getEvaluationBarValue = (
   position: PositionEval
-): { whiteBarPercentage: number; label: string } => {
+): {
+  whiteBarPercentage: number;
+  label: string;
+  wdl?: [number, number, number];
+} => {
   const whiteBarPercentage = getPositionWinPercentage(position);
   const bestLine = position.lines[0];
+  const wdl = bestLine.wdl;
 
   if (bestLine.mate) {
-    return { label: `M${Math.abs(bestLine.mate)}`, whiteBarPercentage };
+    return { label: `M${Math.abs(bestLine.mate)}`, whiteBarPercentage, wdl };
   }
 
   const cp = bestLine.cp;
-  if (!cp) return { whiteBarPercentage, label: "0.0" };
+  if (!cp) return { whiteBarPercentage, label: "0.0", wdl };
 
   const pEval = Math.abs(cp) / 100;
   let label = pEval.toFixed(1);
@@ -176,7 +181,7 @@ export const getEvaluationBarValue = (
     label = pEval.toFixed(0);
   }
 
-  return { whiteBarPercentage, label };
+  return { whiteBarPercentage, label, wdl };
 };
 
 export const getIsStalemate = (fen: string): boolean => {
@@ -190,6 +195,11 @@ export const getWhoIsCheckmated = (fen: string): "w" | "b" | null => {
   return game.turn();
 };
 
+export const getLegalMovesNb = (fen: string): number => {
+  const game = new Chess(fen);
+  return game.moves().length;
+};
+
 export const uciMoveParams = (
   uciMove: string
 ): {
@@ -292,6 +302,16 @@ export const getMaterialDifference = (fen: string): number => {
   }, 0);
 };
 
+export const getPiecesMaterial = (fen: string): number => {
+  const game = new Chess(fen);
+  const board = game.board().flat();
+
+  return board.reduce((acc, square) => {
+    if (!square || square.type === "p") return acc;
+    return acc + getPieceValue(square.type);
+  }, 0);
+};
+
 const getPieceValue = (piece: PieceSymbol): number => {
   switch (piece) {
     case "p":
@@ -368,6 +388,23 @@ const pieceFenToSymbol: Record<string, Piece | undefined> = {
   K: "wK",
 };
 
+// Passes the turn to the opponent, which is not possible when in check
+export const getNullMoveFen = (fen: string): string | undefined => {
+  const game = new Chess(fen);
+  if (game.inCheck() || game.isGameOver()) return undefined;
+
+  const [placement, turn, castling, , halfMoves, fullMoves] = fen.split(" ");
+
+  return [
+    placement,
+    turn === "w" ? "b" : "w",
+    castling,
+    "-",
+    Number(halfMoves) + 1,
+    turn === "b" ? Number(fullMoves) + 1 : Number(fullMoves),
+  ].join(" ");
+};
+
 export const getLineEvalLabel = (
   line: Pick<LineEval, "cp" | "mate">
 ): string => {
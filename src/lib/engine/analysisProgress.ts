@@ -0,0 +1,150 @@
+import { ClassificationProfile, EngineName } from "@/types/enums";
+import { PositionEval, SearchLimits } from "@/types/eval";
+import { DBSchema, IDBPDatabase, openDB } from "idb";
+import { logErrorToSentry } from "../sentry";
+
+const DB_NAME = "EngineAnalysisProgress";
+// Unfinished analyses older than this are not worth resuming
+const MAX_PROGRESS_AGE = 30 * 24 * 60 * 60 * 1000;
+
+export interface AnalysisProgressSettings extends SearchLimits {
+  engine: EngineName;
+  depth: number;
+  multiPv: number;
+  classificationProfile: ClassificationProfile | null;
+}
+
+export interface AnalysisProgress {
+  key: string;
+  settings: AnalysisProgressSettings;
+  positions: (PositionEval | undefined)[];
+  positionsNb: number;
+  updatedAt: number;
+}
+
+interface AnalysisProgressSchema extends DBSchema {
+  analyses: {
+    value: AnalysisProgress;
+    key: string;
+    indexes: { byUpdatedAt: number };
+  };
+}
+
+let dbPromise: Promise<IDBPDatabase<AnalysisProgressSchema>> | null = null;
+
+const getDb = (): Promise<IDBPDatabase<AnalysisProgressSchema>> => {
+  if (!dbPromise) {
+    dbPromise = openDB<AnalysisProgressSchema>(DB_NAME, 1, {
+      upgrade(db) {
+        const store = db.createObjectStore("analyses", { keyPath: "key" });
+        store.createIndex("byUpdatedAt", "updatedAt");
+      },
+    });
+  }
+
+  return dbPromise;
+};
+
+// Positions searched with other limits or for another profile are not resumed
+const isSameSettings = (
+  a: AnalysisProgressSettings,
+  b: AnalysisProgressSettings
+): boolean =>
+  a.engine === b.engine &&
+  a.depth === b.depth &&
+  a.multiPv === b.multiPv &&
+  a.movetime === b.movetime &&
+  a.nodes === b.nodes &&
+  a.totalTime === b.totalTime &&
+  a.classificationProfile === b.classificationProfile;
+
+// A game is identified by its starting position and its moves
+export const getAnalysisProgressKey = (
+  fens: string[],
+  uciMoves: string[]
+): string => `${fens[0]}|${uciMoves.join(" ")}`;
+
+export const getAnalysisProgress = async (
+  key: string,
+  settings: AnalysisProgressSettings
+): Promise<AnalysisProgress | undefined> => {
+  if (typeof indexedDB === "undefined") return undefined;
+
+  try {
+    const db = await getDb();
+    const progress = await db.get("analyses", key);
+
+    if (!progress || !isSameSettings(progress.settings, settings)) {
+      return undefined;
+    }
+
+    return progress;
+  } catch (error) {
+    logErrorToSentry(error, { key });
+    return undefined;
+  }
+};
+
+export const saveAnalysisProgressPosition = async (
+  key: string,
+  settings: AnalysisProgressSettings,
+  positionsNb: number,
+  index: number,
+  positionEval: PositionEval
+): Promise<void> => {
+  if (typeof indexedDB === "undefined") return;
+
+  try {
+    const db = await getDb();
+    const tx = db.transaction("analyses", "readwrite");
+    const progress = await tx.store.get(key);
+
+    const positions =
+      progress && isSameSettings(progress.settings, settings)
+        ? progress.positions
+        : new Array(positionsNb).fill(undefined);
+    positions[index] = positionEval;
+
+    await tx.store.put({
+      key,
+      settings,
+      positions,
+      positionsNb,
+      updatedAt: Date.now(),
+    });
+    await tx.done;
+  } catch (error) {
+    logErrorToSentry(error, { key, index });
+  }
+};
+
+export const deleteAnalysisProgress = async (key: string): Promise<void> => {
+  if (typeof indexedDB === "undefined") return;
+
+  try {
+    const db = await getDb();
+    await db.delete("analyses", key);
+    await deleteOutdatedAnalysisProgress(db);
+  } catch (error) {
+    logErrorToSentry(error, { key });
+  }
+};
+
+const deleteOutdatedAnalysisProgress = async (
+  db: IDBPDatabase<AnalysisProgressSchema>
+): Promise<void> => {
+  const tx = db.transaction("analyses", "readwrite");
+  let cursor = await tx.store
+    .index("byUpdatedAt")
+    .openCursor(IDBKeyRange.upperBound(Date.now() - MAX_PROGRESS_AGE));
+
+  while (cursor) {
+    await cursor.delete();
+    cursor = await cursor.continue();
+  }
+
+  await tx.done;
+};
+
+export const getEvaluatedPositionsNb = (progress: AnalysisProgress): number =>
+  progress.positions.filter(Boolean).length;
@@ -0,0 +1,136 @@
+import { EngineBenchmark, EngineBenchmarkResult } from "@/types/engine";
+import { EngineName } from "@/types/enums";
+import { logErrorToSentry } from "../sentry";
+import { createEngine, isEngineSupported } from "./shared";
+
+// Opening, middlegame and endgame positions, searched for a fixed time each
+const BENCHMARK_FENS = [
+  "r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3",
+  "r1bq1rk1/pp2bppp/2n1pn2/3p4/2PP4/2N1PN2/PP2BPPP/R2QKB1R w KQ - 0 8",
+  "2r2rk1/1bqnbppp/pp1ppn2/8/2PNP3/1PN1BP2/P2QB1PP/2RR2K1 w - - 0 16",
+  "8/5pk1/6p1/3P4/4K3/6P1/5P2/8 w - - 0 45",
+];
+const BENCHMARK_MOVETIME = 500;
+
+// Below these, a weaker but faster engine gives a better analysis experience
+const MIN_RECOMMENDED_NPS = 200_000;
+const MAX_RECOMMENDED_LOAD_TIME = 10_000;
+
+// An additional worker has to bring at least this much throughput to be worth it
+const MIN_WORKERS_NPS_GAIN = 1.15;
+
+export const runEngineBenchmark = async ({
+  maxWorkersNb,
+  onProgress,
+}: {
+  maxWorkersNb: number;
+  onProgress?: (label: string) => void;
+}): Promise<EngineBenchmark> => {
+  // The enum is ordered from the strongest engine to the weakest
+  const engineNames = Object.values(EngineName).filter(
+    (engineName) =>
+      engineName !== EngineName.Remote && isEngineSupported(engineName)
+  );
+  const results: EngineBenchmarkResult[] = [];
+
+  for (const [i, engineName] of engineNames.entries()) {
+    onProgress?.(`Engine ${i + 1}/${engineNames.length}`);
+
+    try {
+      results.push(await benchmarkEngine(engineName));
+    } catch (error) {
+      logErrorToSentry(error, { engineName });
+    }
+  }
+
+  if (!results.length) {
+    throw new Error("No engine could be benchmarked on this device");
+  }
+
+  const recommendedEngine = getRecommendedEngine(results);
+
+  onProgress?.("Number of threads");
+  const workersNps = await benchmarkWorkers(recommendedEngine, maxWorkersNb);
+
+  return {
+    date: new Date().toISOString(),
+    results,
+    workersNps,
+    recommendedEngine,
+    recommendedWorkersNb: getRecommendedWorkersNbFromNps(workersNps),
+  };
+};
+
+const benchmarkEngine = async (
+  engineName: EngineName
+): Promise<EngineBenchmarkResult> => {
+  const startTime = performance.now();
+  const engine = await createEngine(engineName);
+  const loadTime = Math.round(performance.now() - startTime);
+
+  try {
+    const nps = await engine.benchmark(BENCHMARK_FENS, BENCHMARK_MOVETIME);
+    return { engine: engineName, loadTime, nps };
+  } finally {
+    engine.shutdown();
+  }
+};
+
+const benchmarkWorkers = async (
+  engineName: EngineName,
+  maxWorkersNb: number
+): Promise<Record<number, number>> => {
+  const engine = await createEngine(engineName);
+  const workersNps: Record<number, number> = {};
+
+  try {
+    for (let workersNb = 1; workersNb <= maxWorkersNb; workersNb *= 2) {
+      // Every worker gets the same amount of positions, so each run lasts as long
+      const fens = Array.from(
+        { length: BENCHMARK_FENS.length * workersNb },
+        (_, i) => BENCHMARK_FENS[i % BENCHMARK_FENS.length]
+      );
+      workersNps[workersNb] = await engine.benchmark(
+        fens,
+        BENCHMARK_MOVETIME,
+        workersNb
+      );
+
+      const previousNps = workersNps[workersNb / 2];
+      if (previousNps && workersNps[workersNb] < previousNps) break;
+    }
+  } catch (error) {
+    logErrorToSentry(error, { engineName, maxWorkersNb });
+  } finally {
+    engine.shutdown();
+  }
+
+  return workersNps;
+};
+
+const getRecommendedEngine = (results: EngineBenchmarkResult[]): EngineName => {
+  const recommendedResult = results.find(
+    ({ nps, loadTime }) =>
+      nps >= MIN_RECOMMENDED_NPS && loadTime <= MAX_RECOMMENDED_LOAD_TIME
+  );
+  if (recommendedResult) return recommendedResult.engine;
+
+  return results.reduce((fastest, result) =>
+    result.nps > fastest.nps ? result : fastest
+  ).engine;
+};
+
+const getRecommendedWorkersNbFromNps = (
+  workersNps: Record<number, number>
+): number => {
+  let recommendedWorkersNb = 1;
+
+  for (const [workersNb, nps] of Object.entries(workersNps)) {
+    const recommendedNps = workersNps[recommendedWorkersNb];
+    if (!recommendedNps || nps >= recommendedNps * MIN_WORKERS_NPS_GAIN) {
+      recommendedWorkersNb = Number(workersNb);
+    }
+  }
+
+  return recommendedWorkersNb;
+};
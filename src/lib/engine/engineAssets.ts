@@ -0,0 +1,134 @@
+import { ENGINE_LABELS } from "@/constants";
+import { EngineName } from "@/types/enums";
+import { Stockfish11 } from "./stockfish11";
+import { Stockfish16 } from "./stockfish16";
+import { Stockfish16_1 } from "./stockfish16_1";
+import { Stockfish17 } from "./stockfish17";
+
+// Must match the cache name used by public/engine-assets-worker.js
+const ENGINE_ASSETS_CACHE_NAME = "engine-assets-v1";
+const ENGINE_ASSETS_WORKER_PATH = "/engine-assets-worker.js";
+
+// Encoding headers describe the network response, not the decoded body we store
+const DROPPED_HEADERS = ["content-encoding", "content-length"];
+
+export const isEngineAssetsCacheSupported = (): boolean =>
+  typeof window !== "undefined" &&
+  "caches" in window &&
+  "serviceWorker" in navigator;
+
+// The service worker serves the downloaded files to the engine workers, even offline
+export const registerEngineAssetsWorker = async (): Promise<void> => {
+  if (!isEngineAssetsCacheSupported()) return;
+
+  await navigator.serviceWorker.register(ENGINE_ASSETS_WORKER_PATH);
+};
+
+export const getEngineAssetPaths = (engineName: EngineName): string[] => {
+  switch (engineName) {
+    case EngineName.Stockfish17:
+      return Stockfish17.getAssetPaths(false);
+    case EngineName.Stockfish17Lite:
+      return Stockfish17.getAssetPaths(true);
+    case EngineName.Stockfish16_1:
+      return Stockfish16_1.getAssetPaths(false);
+    case EngineName.Stockfish16_1Lite:
+      return Stockfish16_1.getAssetPaths(true);
+    case EngineName.Stockfish16:
+    case EngineName.Stockfish16NNUE:
+      return Stockfish16.getAssetPaths();
+    case EngineName.Stockfish11:
+      return Stockfish11.getAssetPaths();
+    case EngineName.Remote:
+      return [];
+  }
+};
+
+export const isEngineDownloaded = async (
+  engineName: EngineName
+): Promise<boolean> => {
+  const assetPaths = getEngineAssetPaths(engineName);
+  if (!isEngineAssetsCacheSupported() || !assetPaths.length) return false;
+
+  const cache = await caches.open(ENGINE_ASSETS_CACHE_NAME);
+  const cachedAssets = await Promise.all(
+    assetPaths.map((path) => cache.match(path))
+  );
+
+  return cachedAssets.every(Boolean);
+};
+
+export const downloadEngineAssets = async (
+  engineName: EngineName,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  if (!isEngineAssetsCacheSupported()) {
+    throw new Error("Engine downloads are not supported by this browser");
+  }
+
+  const assetPaths = getEngineAssetPaths(engineName);
+  const cache = await caches.open(ENGINE_ASSETS_CACHE_NAME);
+
+  const responses = await Promise.all(
+    assetPaths.map(async (path) => {
+      const response = await fetch(path, { signal });
+      if (!response.ok) {
+        throw new Error(`Failed to download ${path} : ${response.status}`);
+      }
+      return response;
+    })
+  );
+
+  // Servers may omit the length of compressed files, fall back to the announced size
+  const contentLengths = responses.map((response) =>
+    Number(response.headers.get("content-length"))
+  );
+  const totalBytes = contentLengths.every((length) => length > 0)
+    ? contentLengths.reduce((acc, length) => acc + length, 0)
+    : ENGINE_LABELS[engineName].sizeMb * 1024 * 1024;
+
+  let loadedBytes = 0;
+
+  const getProgressStream = () =>
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        loadedBytes += chunk.length;
+        onProgress?.(Math.min(99, (loadedBytes / totalBytes) * 100));
+        controller.enqueue(chunk);
+      },
+    });
+
+  try {
+    await Promise.all(
+      responses.map((response, i) => {
+        const headers = new Headers(response.headers);
+        for (const header of DROPPED_HEADERS) headers.delete(header);
+
+        return cache.put(
+          assetPaths[i],
+          new Response(response.body?.pipeThrough(getProgressStream()), {
+            headers,
+          })
+        );
+      })
+    );
+  } catch (error) {
+    // A partial engine could not run offline anyway
+    await deleteEngineAssets(engineName);
+    throw error;
+  }
+
+  onProgress?.(100);
+};
+
+export const deleteEngineAssets = async (
+  engineName: EngineName
+): Promise<void> => {
+  if (!isEngineAssetsCacheSupported()) return;
+
+  const cache = await caches.open(ENGINE_ASSETS_CACHE_NAME);
+  await Promise.all(
+    getEngineAssetPaths(engineName).map((path) => cache.delete(path))
+  );
+};
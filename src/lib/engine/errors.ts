@@ -0,0 +1,29 @@
+export class EngineWorkerError extends Error {
+  public readonly reason: "crash" | "stall";
+
+  constructor(reason: EngineWorkerError["reason"], message: string) {
+    super(message);
+    this.name = "EngineWorkerError";
+    this.reason = reason;
+  }
+}
+
+export class EngineCrashError extends Error {
+  public readonly attempts: number;
+
+  constructor(engineName: string, attempts: number, cause?: unknown) {
+    super(
+      `${engineName} crashed ${attempts} times in a row, try a lighter engine or fewer threads`
+    );
+    this.name = "EngineCrashError";
+    this.attempts = attempts;
+    this.cause = cause;
+  }
+}
+
+export class EngineJobAbortedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EngineJobAbortedError";
+  }
+}
@@ -0,0 +1,209 @@
+import { EngineName } from "@/types/enums";
+import { LineEval, PositionEval } from "@/types/eval";
+import { DBSchema, IDBPDatabase, openDB } from "idb";
+import { logErrorToSentry } from "../sentry";
+import { getLegalMovesNb } from "../chess";
+
+const DB_NAME = "EngineEvalCache";
+// Approximate size of the stored evaluations, in bytes
+const MAX_CACHE_SIZE = 50 * 1024 * 1024;
+// Evicting a bit more than needed avoids evicting again on the next write
+const CACHE_SIZE_AFTER_EVICTION = 0.9 * MAX_CACHE_SIZE;
+const TOTAL_SIZE_KEY = "totalSize";
+
+// Reads only mark an entry as recently used if that mark is older than this
+const ACCESS_UPDATE_INTERVAL = 10 * 60 * 1000;
+// Access marks are written together, a while after the reads
+const ACCESS_FLUSH_DELAY = 5000;
+
+interface CachedEval {
+  key: string;
+  engine: EngineName;
+  bestMove?: string;
+  lines: LineEval[];
+  depth: number;
+  lastAccess: number;
+  size: number;
+}
+
+interface EvalCacheSchema extends DBSchema {
+  evals: {
+    value: CachedEval;
+    key: string;
+    indexes: { byLastAccess: number };
+  };
+  meta: {
+    value: number;
+    key: string;
+  };
+}
+
+let dbPromise: Promise<IDBPDatabase<EvalCacheSchema>> | null = null;
+
+const getDb = (): Promise<IDBPDatabase<EvalCacheSchema>> => {
+  if (!dbPromise) {
+    dbPromise = openDB<EvalCacheSchema>(DB_NAME, 2, {
+      upgrade(db, oldVersion) {
+        // Entries from the first version have no size, the cache starts over
+        if (oldVersion >= 1) db.deleteObjectStore("evals");
+
+        const store = db.createObjectStore("evals", { keyPath: "key" });
+        store.createIndex("byLastAccess", "lastAccess");
+        db.createObjectStore("meta");
+      },
+    });
+  }
+
+  return dbPromise;
+};
+
+// Move counters do not change the evaluation, drop them to share entries between transpositions
+export const normalizeFen = (fen: string): string =>
+  fen.split(" ").slice(0, 4).join(" ");
+
+const getCacheKey = (fen: string, engine: EngineName): string =>
+  `${engine}|${normalizeFen(fen)}`;
+
+const getEvalDepth = (lines: LineEval[]): number => lines[0]?.depth ?? 0;
+
+// Strings take two bytes per character
+const getApproximateSize = (cachedEval: Omit<CachedEval, "size">): number =>
+  JSON.stringify(cachedEval).length * 2;
+
+const pendingAccesses = new Map<string, number>();
+let accessFlushTimeout: ReturnType<typeof setTimeout> | undefined = undefined;
+
+const markAsAccessed = (cachedEval: CachedEval) => {
+  if (Date.now() - cachedEval.lastAccess < ACCESS_UPDATE_INTERVAL) return;
+
+  pendingAccesses.set(cachedEval.key, Date.now());
+  accessFlushTimeout ??= setTimeout(flushAccesses, ACCESS_FLUSH_DELAY);
+};
+
+const flushAccesses = async (): Promise<void> => {
+  accessFlushTimeout = undefined;
+  const accesses = Array.from(pendingAccesses.entries());
+  pendingAccesses.clear();
+
+  try {
+    const db = await getDb();
+    const tx = db.transaction("evals", "readwrite");
+
+    await Promise.all(
+      accesses.map(async ([key, lastAccess]) => {
+        const cachedEval = await tx.store.get(key);
+        if (!cachedEval || cachedEval.lastAccess >= lastAccess) return;
+
+        await tx.store.put({ ...cachedEval, lastAccess });
+      })
+    );
+
+    await tx.done;
+  } catch (error) {
+    logErrorToSentry(error, { accessesNb: accesses.length });
+  }
+};
+
+export const getCachedEval = async (
+  fen: string,
+  engine: EngineName,
+  { depth, multiPv }: { depth: number; multiPv: number }
+): Promise<PositionEval | undefined> => {
+  if (typeof indexedDB === "undefined") return undefined;
+
+  try {
+    const db = await getDb();
+    const cachedEval = await db.get("evals", getCacheKey(fen, engine));
+
+    // Positions with few legal moves cannot have as many lines as requested
+    if (
+      !cachedEval ||
+      cachedEval.depth < depth ||
+      cachedEval.lines.length < Math.min(multiPv, getLegalMovesNb(fen))
+    ) {
+      return undefined;
+    }
+
+    markAsAccessed(cachedEval);
+
+    return {
+      bestMove: cachedEval.bestMove,
+      lines: cachedEval.lines.slice(0, multiPv),
+    };
+  } catch (error) {
+    logErrorToSentry(error, { fen, engine, depth, multiPv });
+    return undefined;
+  }
+};
+
+export const setCachedEval = async (
+  fen: string,
+  engine: EngineName,
+  positionEval: PositionEval
+): Promise<void> => {
+  if (typeof indexedDB === "undefined" || !positionEval.lines.length) return;
+
+  try {
+    const db = await getDb();
+    const key = getCacheKey(fen, engine);
+    const depth = getEvalDepth(positionEval.lines);
+
+    const tx = db.transaction(["evals", "meta"], "readwrite");
+    const evalsStore = tx.objectStore("evals");
+    const metaStore = tx.objectStore("meta");
+
+    const cachedEval = await evalsStore.get(key);
+    const isCachedEvalBetter =
+      !!cachedEval &&
+      (cachedEval.depth > depth ||
+        (cachedEval.depth === depth &&
+          cachedEval.lines.length >= positionEval.lines.length));
+
+    if (cachedEval && isCachedEvalBetter) {
+      await tx.done;
+      markAsAccessed(cachedEval);
+      return;
+    }
+
+    const newEval = {
+      key,
+      engine,
+      bestMove: positionEval.bestMove,
+      lines: positionEval.lines,
+      depth,
+      lastAccess: Date.now(),
+    };
+    const size = getApproximateSize(newEval);
+    const totalSize =
+      ((await metaStore.get(TOTAL_SIZE_KEY)) ?? 0) +
+      size -
+      (cachedEval?.size ?? 0);
+
+    await evalsStore.put({ ...newEval, size });
+    await metaStore.put(totalSize, TOTAL_SIZE_KEY);
+    await tx.done;
+
+    if (totalSize > MAX_CACHE_SIZE) await evictLeastRecentlyUsedEvals(db);
+  } catch (error) {
+    logErrorToSentry(error, { fen, engine });
+  }
+};
+
+const evictLeastRecentlyUsedEvals = async (
+  db: IDBPDatabase<EvalCacheSchema>
+): Promise<void> => {
+  const tx = db.transaction(["evals", "meta"], "readwrite");
+  const metaStore = tx.objectStore("meta");
+
+  let totalSize = (await metaStore.get(TOTAL_SIZE_KEY)) ?? 0;
+  let cursor = await tx.objectStore("evals").index("byLastAccess").openCursor();
+
+  while (cursor && totalSize > CACHE_SIZE_AFTER_EVICTION) {
+    totalSize -= cursor.value.size;
+    await cursor.delete();
+    cursor = await cursor.continue();
+  }
+
+  await metaStore.put(Math.max(0, totalSize), TOTAL_SIZE_KEY);
+  await tx.done;
+};
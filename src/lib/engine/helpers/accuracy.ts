@@ -23,16 +23,46 @@ export const computeAccuracy = (positions: PositionEval[]): Accuracy => {
   };
 };
 
+// Accuracy of the selected moves only, weighted with the whole game volatility
+export const computeMovesAccuracy = (
+  positions: PositionEval[],
+  isMoveSelected: (moveIdx: number) => boolean
+): Partial<Accuracy> => {
+  const positionsWinPercentage = positions.map(getPositionWinPercentage);
+
+  const weights = getAccuracyWeights(positionsWinPercentage);
+
+  const movesAccuracy = getMovesAccuracy(positionsWinPercentage);
+
+  const getSelectedPlayerAccuracy = (player: "white" | "black") => {
+    const remainder = player === "white" ? 0 : 1;
+    const hasSelectedMoves = movesAccuracy.some(
+      (_, index) => index % 2 === remainder && isMoveSelected(index)
+    );
+    if (!hasSelectedMoves) return undefined;
+
+    return getPlayerAccuracy(movesAccuracy, weights, player, isMoveSelected);
+  };
+
+  return {
+    white: getSelectedPlayerAccuracy("white"),
+    black: getSelectedPlayerAccuracy("black"),
+  };
+};
+
 const getPlayerAccuracy = (
   movesAccuracy: number[],
   weights: number[],
-  player: "white" | "black"
+  player: "white" | "black",
+  isMoveSelected: (moveIdx: number) => boolean = () => true
 ): number => {
   const remainder = player === "white" ? 0 : 1;
-  const playerAccuracies = movesAccuracy.filter(
-    (_, index) => index % 2 === remainder
+  const isPlayerMove = (index: number) =>
+    index % 2 === remainder && isMoveSelected(index);
+  const playerAccuracies = movesAccuracy.filter((_, index) =>
+    isPlayerMove(index)
   );
-  const playerWeights = weights.filter((_, index) => index % 2 === remainder);
+  const playerWeights = weights.filter((_, index) => isPlayerMove(index));
 
   const weightedMean = getWeightedMean(playerAccuracies, playerWeights);
   const harmonicMean = getHarmonicMean(playerAccuracies);
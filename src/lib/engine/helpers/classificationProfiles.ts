@@ -0,0 +1,107 @@
+import { ClassificationProfile } from "@/types/enums";
+
+// Win percentage thresholds, losses are counted from the point of view of the player
+export interface ClassificationThresholds {
+  blunder: number;
+  mistake: number;
+  inaccuracy: number;
+  okay: number;
+  // Splendid, perfect and great moves
+  goodMoveMaxLoss: number;
+  onlyGoodMoveMinGap: number;
+  changedOutcomeMinGain: number;
+  alternateCompletelyWinning: number;
+  greatMoveBalanceMaxGap: number;
+  // Miss
+  opponentBlunderMinGain: number;
+  missMinLoss: number;
+}
+
+export const CLASSIFICATION_PROFILES: Record<
+  ClassificationProfile,
+  ClassificationThresholds
+> = {
+  [ClassificationProfile.Beginner]: {
+    blunder: 30,
+    mistake: 20,
+    inaccuracy: 10,
+    okay: 5,
+    goodMoveMaxLoss: 5,
+    onlyGoodMoveMinGap: 8,
+    changedOutcomeMinGain: 8,
+    alternateCompletelyWinning: 95,
+    greatMoveBalanceMaxGap: 20,
+    opponentBlunderMinGain: 30,
+    missMinLoss: 20,
+  },
+  [ClassificationProfile.Club]: {
+    blunder: 25,
+    mistake: 15,
+    inaccuracy: 8,
+    okay: 4,
+    goodMoveMaxLoss: 4,
+    onlyGoodMoveMinGap: 9,
+    changedOutcomeMinGain: 9,
+    alternateCompletelyWinning: 96,
+    greatMoveBalanceMaxGap: 18,
+    opponentBlunderMinGain: 25,
+    missMinLoss: 15,
+  },
+  [ClassificationProfile.Advanced]: {
+    blunder: 22,
+    mistake: 12,
+    inaccuracy: 6,
+    okay: 3,
+    goodMoveMaxLoss: 3,
+    onlyGoodMoveMinGap: 10,
+    changedOutcomeMinGain: 10,
+    alternateCompletelyWinning: 97,
+    greatMoveBalanceMaxGap: 15,
+    opponentBlunderMinGain: 22,
+    missMinLoss: 12,
+  },
+  [ClassificationProfile.Master]: {
+    blunder: 20,
+    mistake: 10,
+    inaccuracy: 5,
+    okay: 2,
+    goodMoveMaxLoss: 2,
+    onlyGoodMoveMinGap: 10,
+    changedOutcomeMinGain: 10,
+    alternateCompletelyWinning: 97,
+    greatMoveBalanceMaxGap: 15,
+    opponentBlunderMinGain: 20,
+    missMinLoss: 10,
+  },
+};
+
+export const CLASSIFICATION_PROFILE_LABELS: Record<
+  ClassificationProfile,
+  string
+> = {
+  [ClassificationProfile.Beginner]: "Beginner (below 1200)",
+  [ClassificationProfile.Club]: "Club player (1200 - 1800)",
+  [ClassificationProfile.Advanced]: "Advanced (1800 - 2300)",
+  [ClassificationProfile.Master]: "Master (2300+)",
+};
+
+// Unrated games keep the strictest labels, as before profiles existed
+export const DEFAULT_CLASSIFICATION_PROFILE = ClassificationProfile.Master;
+
+export const getClassificationProfile = (playersRatings?: {
+  white?: number;
+  black?: number;
+}): ClassificationProfile => {
+  const ratings = [playersRatings?.white, playersRatings?.black].filter(
+    (rating): rating is number => !!rating
+  );
+  if (!ratings.length) return DEFAULT_CLASSIFICATION_PROFILE;
+
+  const averageRating =
+    ratings.reduce((acc, rating) => acc + rating, 0) / ratings.length;
+
+  if (averageRating < 1200) return ClassificationProfile.Beginner;
+  if (averageRating < 1800) return ClassificationProfile.Club;
+  if (averageRating < 2300) return ClassificationProfile.Advanced;
+  return ClassificationProfile.Master;
+};
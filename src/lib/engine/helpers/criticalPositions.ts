@@ -0,0 +1,64 @@
+import { MoveClassification } from "@/types/enums";
+import { PositionEval } from "@/types/eval";
+import {
+  getLineWinPercentage,
+  getPositionWinPercentage,
+} from "./winPercentage";
+
+const CRITICAL_WIN_PERCENTAGE_SWING = 10;
+const CLOSE_LINES_WIN_PERCENTAGE_GAP = 3;
+
+const CRITICAL_CLASSIFICATIONS = [
+  MoveClassification.Blunder,
+  MoveClassification.Mistake,
+  MoveClassification.Miss,
+  MoveClassification.Splendid,
+];
+
+// Returns the positions worth a deeper search, the most critical ones first
+export const getCriticalPositionIndexes = (
+  positions: PositionEval[],
+  maxPositionsNb: number
+): number[] => {
+  const positionsWinPercentage = positions.map(getPositionWinPercentage);
+  const priorities = new Map<number, number>();
+
+  const addPosition = (index: number, priority: number) => {
+    // Mates and stalemates are exact already
+    if (!positions[index]?.lines[0]?.pv.length) return;
+    priorities.set(index, Math.max(priorities.get(index) ?? 0, priority));
+  };
+
+  positions.forEach((position, index) => {
+    if (index > 0) {
+      const swing = Math.abs(
+        positionsWinPercentage[index] - positionsWinPercentage[index - 1]
+      );
+
+      // A move label depends on the positions before and after it
+      if (
+        swing >= CRITICAL_WIN_PERCENTAGE_SWING ||
+        (position.moveClassification &&
+          CRITICAL_CLASSIFICATIONS.includes(position.moveClassification))
+      ) {
+        addPosition(index - 1, swing);
+        addPosition(index, swing);
+      }
+    }
+
+    const [firstLine, secondLine] = position.lines;
+    if (firstLine && secondLine) {
+      const linesGap = Math.abs(
+        getLineWinPercentage(firstLine) - getLineWinPercentage(secondLine)
+      );
+      if (linesGap <= CLOSE_LINES_WIN_PERCENTAGE_GAP) {
+        addPosition(index, CLOSE_LINES_WIN_PERCENTAGE_GAP - linesGap);
+      }
+    }
+  });
+
+  return Array.from(priorities.entries())
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, maxPositionsNb)
+    .map(([index]) => index);
+};
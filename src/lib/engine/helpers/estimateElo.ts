@@ -1,27 +1,135 @@
-import { ceilsNumber } from "@/lib/math";
-import { EstimatedElo, PositionEval } from "@/types/eval";
+import { ceilsNumber, getStandardDeviation } from "@/lib/math";
+import { MoveClassification, TimeControlCategory } from "@/types/enums";
+import { EloRange, EstimatedElo, PositionEval } from "@/types/eval";
+
+interface EloCalibration {
+  maxElo: number;
+  cplDecay: number;
+  // Keeps the interval from collapsing on short or very clean games
+  minCplStandardDeviation: number;
+}
+
+// Source: https://lichess.org/forum/general-chess-discussion/how-to-estimate-your-elo-for-a-game-using-acpl-and-what-it-realistically-means
+const DEFAULT_ELO_CALIBRATION: EloCalibration = {
+  maxElo: 3100,
+  cplDecay: 0.01,
+  minCplStandardDeviation: 45,
+};
+
+// Faster games are played less accurately at the same rating
+const ELO_CALIBRATIONS: Record<TimeControlCategory, EloCalibration> = {
+  [TimeControlCategory.Bullet]: {
+    maxElo: 3000,
+    cplDecay: 0.0075,
+    minCplStandardDeviation: 60,
+  },
+  [TimeControlCategory.Blitz]: {
+    maxElo: 3050,
+    cplDecay: 0.0085,
+    minCplStandardDeviation: 50,
+  },
+  [TimeControlCategory.Rapid]: DEFAULT_ELO_CALIBRATION,
+  [TimeControlCategory.Classical]: {
+    maxElo: 3150,
+    cplDecay: 0.011,
+    minCplStandardDeviation: 40,
+  },
+};
+
+// Two-sided 95% confidence interval
+const CONFIDENCE_Z_SCORE = 1.96;
 
 export const computeEstimatedElo = (
   positions: PositionEval[],
   whiteElo?: number,
-  blackElo?: number
+  blackElo?: number,
+  timeControl?: string
 ): EstimatedElo | undefined => {
-  if (positions.length < 2) {
+  if (positions.length < 3) {
     return undefined;
   }
 
-  const { whiteCpl, blackCpl } = getPlayersAverageCpl(positions);
+  const timeControlCategory = getTimeControlCategory(timeControl);
+  const calibration = timeControlCategory
+    ? ELO_CALIBRATIONS[timeControlCategory]
+    : DEFAULT_ELO_CALIBRATION;
+
+  const movesCpl = getMovesCpl(positions);
+
+  const getPlayerEstimate = (
+    player: "white" | "black",
+    rating: number | undefined
+  ): { elo: number; range: EloRange } => {
+    const remainder = player === "white" ? 0 : 1;
+    const playerMovesCpl = movesCpl.filter(
+      (_, index) => index % 2 === remainder
+    );
+    // Book moves are not played from the player's own judgement
+    const nonBookMovesCpl = movesCpl.filter(
+      (_, index) =>
+        index % 2 === remainder &&
+        positions[index + 1].moveClassification !== MoveClassification.Opening
+    );
+    const sampleCpl = nonBookMovesCpl.length ? nonBookMovesCpl : playerMovesCpl;
+
+    const averageCpl =
+      sampleCpl.reduce((acc, moveCpl) => acc + moveCpl, 0) / sampleCpl.length;
+    const standardDeviation = Math.max(
+      getStandardDeviation(sampleCpl),
+      calibration.minCplStandardDeviation
+    );
+    const cplMargin =
+      (CONFIDENCE_Z_SCORE * standardDeviation) / Math.sqrt(sampleCpl.length);
+
+    return {
+      elo: getEloFromRatingAndCpl(averageCpl, rating, calibration),
+      range: {
+        min: getEloFromRatingAndCpl(
+          averageCpl + cplMargin,
+          rating,
+          calibration
+        ),
+        max: getEloFromRatingAndCpl(
+          Math.max(0, averageCpl - cplMargin),
+          rating,
+          calibration
+        ),
+      },
+    };
+  };
+
+  const whiteEstimate = getPlayerEstimate("white", whiteElo ?? blackElo);
+  const blackEstimate = getPlayerEstimate("black", blackElo ?? whiteElo);
+
+  return {
+    white: whiteEstimate.elo,
+    black: blackEstimate.elo,
+    whiteRange: whiteEstimate.range,
+    blackRange: blackEstimate.range,
+    timeControlCategory,
+  };
+};
+
+// Parses the PGN TimeControl header, e.g. "180+2", "600" or "40/7200:3600"
+const getTimeControlCategory = (
+  timeControl: string | undefined
+): TimeControlCategory | undefined => {
+  const firstPeriod = timeControl?.split(":")[0];
+  if (!firstPeriod) return undefined;
+
+  // Moves per period, only used by classical and correspondence games
+  if (firstPeriod.includes("/")) return TimeControlCategory.Classical;
 
-  const whiteEstimatedElo = getEloFromRatingAndCpl(
-    whiteCpl,
-    whiteElo ?? blackElo
-  );
-  const blackEstimatedElo = getEloFromRatingAndCpl(
-    blackCpl,
-    blackElo ?? whiteElo
-  );
+  const [baseTime, increment] = firstPeriod.split("+").map(Number);
+  if (!baseTime || isNaN(baseTime)) return undefined;
 
-  return { white: whiteEstimatedElo, black: blackEstimatedElo };
+  // Same estimated duration as lichess, for a game of 40 moves
+  const estimatedDuration = baseTime + 40 * (increment || 0);
+
+  if (estimatedDuration < 180) return TimeControlCategory.Bullet;
+  if (estimatedDuration < 480) return TimeControlCategory.Blitz;
+  if (estimatedDuration < 1500) return TimeControlCategory.Rapid;
+  return TimeControlCategory.Classical;
 };
 
 const getPositionCp = (position: PositionEval): number => {
@@ -38,54 +146,46 @@ const getPositionCp = (position: PositionEval): number => {
   throw new Error("No cp or mate in line");
 };
 
-const getPlayersAverageCpl = (
-  positions: PositionEval[]
-): { whiteCpl: number; blackCpl: number } => {
-  let previousCp = getPositionCp(positions[0]);
-
-  const { whiteCpl, blackCpl } = positions.slice(1).reduce(
-    (acc, position, index) => {
-      const cp = getPositionCp(position);
+export const getMovesCpl = (positions: PositionEval[]): number[] => {
+  const positionsCp = positions.map(getPositionCp);
 
-      if (index % 2 === 0) {
-        acc.whiteCpl += cp > previousCp ? 0 : Math.min(previousCp - cp, 1000);
-      } else {
-        acc.blackCpl += cp < previousCp ? 0 : Math.min(cp - previousCp, 1000);
-      }
+  return positionsCp.slice(1).map((cp, index) => {
+    const previousCp = positionsCp[index];
 
-      previousCp = cp;
-      return acc;
-    },
-    { whiteCpl: 0, blackCpl: 0 }
-  );
+    if (index % 2 === 0) {
+      return cp > previousCp ? 0 : Math.min(previousCp - cp, 1000);
+    }
 
-  return {
-    whiteCpl: whiteCpl / Math.ceil((positions.length - 1) / 2),
-    blackCpl: blackCpl / Math.floor((positions.length - 1) / 2),
-  };
+    return cp < previousCp ? 0 : Math.min(cp - previousCp, 1000);
+  });
 };
 
-// Source: https://lichess.org/forum/general-chess-discussion/how-to-estimate-your-elo-for-a-game-using-acpl-and-what-it-realistically-means
-const getEloFromAverageCpl = (averageCpl: number) =>
-  3100 * Math.exp(-0.01 * averageCpl);
+const getEloFromAverageCpl = (
+  averageCpl: number,
+  { maxElo, cplDecay }: EloCalibration
+) => maxElo * Math.exp(-cplDecay * averageCpl);
 
-const getAverageCplFromElo = (elo: number) =>
-  -100 * Math.log(Math.min(elo, 3100) / 3100);
+const getAverageCplFromElo = (
+  elo: number,
+  { maxElo, cplDecay }: EloCalibration
+) => Math.log(Math.min(elo, maxElo) / maxElo) / -cplDecay;
 
 const getEloFromRatingAndCpl = (
   gameCpl: number,
-  rating: number | undefined
+  rating: number | undefined,
+  calibration: EloCalibration
 ): number => {
-  const eloFromCpl = getEloFromAverageCpl(gameCpl);
+  const eloFromCpl = getEloFromAverageCpl(gameCpl, calibration);
   if (!rating) return eloFromCpl;
 
-  const expectedCpl = getAverageCplFromElo(rating);
+  const expectedCpl = getAverageCplFromElo(rating, calibration);
   const cplDiff = gameCpl - expectedCpl;
   if (cplDiff === 0) return eloFromCpl;
 
+  const ratingCplDecay = calibration.cplDecay / 2;
   if (cplDiff > 0) {
-    return rating * Math.exp(-0.005 * cplDiff);
+    return rating * Math.exp(-ratingCplDecay * cplDiff);
   } else {
-    return rating / Math.exp(-0.005 * -cplDiff);
+    return rating / Math.exp(-ratingCplDecay * -cplDiff);
   }
 };
@@ -0,0 +1,99 @@
+import { getPiecesMaterial } from "@/lib/chess";
+import { GamePhase, MoveClassification } from "@/types/enums";
+import { GamePhasesStats, PlayerPhaseStats, PositionEval } from "@/types/eval";
+import { computeMovesAccuracy } from "./accuracy";
+import { getMovesCpl } from "./estimateElo";
+
+const PHASES_ORDER = [
+  GamePhase.Opening,
+  GamePhase.Middlegame,
+  GamePhase.Endgame,
+];
+
+// Out of book, the opening lasts while few pieces have been traded
+const OPENING_MAX_MOVE_NB = 10;
+const OPENING_MIN_PIECES_MATERIAL = 56;
+// Both players keep at most a rook and two minor pieces, or a queen and a minor piece
+const ENDGAME_MAX_PIECES_MATERIAL = 26;
+
+export const getGamePhases = (
+  positions: PositionEval[],
+  fens: string[]
+): GamePhase[] => {
+  const lastBookPositionIdx = positions.findLastIndex(
+    (position) => position.moveClassification === MoveClassification.Opening
+  );
+
+  let phaseIdx = 0;
+
+  return fens.map((fen, index) => {
+    const piecesMaterial = getPiecesMaterial(fen);
+    const moveNb = Number(fen.split(" ")[5] ?? 1);
+
+    let phase = GamePhase.Middlegame;
+    if (piecesMaterial <= ENDGAME_MAX_PIECES_MATERIAL) {
+      phase = GamePhase.Endgame;
+    } else if (
+      index <= lastBookPositionIdx ||
+      (moveNb <= OPENING_MAX_MOVE_NB &&
+        piecesMaterial >= OPENING_MIN_PIECES_MATERIAL)
+    ) {
+      phase = GamePhase.Opening;
+    }
+
+    // A game never goes back to an earlier phase
+    phaseIdx = Math.max(phaseIdx, PHASES_ORDER.indexOf(phase));
+    return PHASES_ORDER[phaseIdx];
+  });
+};
+
+// Each move belongs to the phase of the position it is played from
+export const computeGamePhasesStats = (
+  positions: PositionEval[],
+  phases: GamePhase[]
+): GamePhasesStats => {
+  const movesCpl = getMovesCpl(positions);
+
+  const getPhaseStats = (phase: GamePhase) => {
+    const isMoveInPhase = (moveIdx: number) => phases[moveIdx] === phase;
+    const accuracy = computeMovesAccuracy(positions, isMoveInPhase);
+
+    const getPlayerStats = (player: "white" | "black"): PlayerPhaseStats => {
+      const remainder = player === "white" ? 0 : 1;
+      const movesIdx = movesCpl
+        .map((_, moveIdx) => moveIdx)
+        .filter(
+          (moveIdx) => moveIdx % 2 === remainder && isMoveInPhase(moveIdx)
+        );
+
+      const classifications: PlayerPhaseStats["classifications"] = {};
+      for (const moveIdx of movesIdx) {
+        const classification = positions[moveIdx + 1].moveClassification;
+        if (!classification) continue;
+
+        classifications[classification] =
+          (classifications[classification] ?? 0) + 1;
+      }
+
+      const totalCpl = movesIdx.reduce(
+        (acc, moveIdx) => acc + movesCpl[moveIdx],
+        0
+      );
+
+      return {
+        movesNb: movesIdx.length,
+        accuracy: accuracy[player],
+        averageCpl: movesIdx.length ? totalCpl / movesIdx.length : undefined,
+        classifications,
+      };
+    };
+
+    return { white: getPlayerStats("white"), black: getPlayerStats("black") };
+  };
+
+  return {
+    [GamePhase.Opening]: getPhaseStats(GamePhase.Opening),
+    [GamePhase.Middlegame]: getPhaseStats(GamePhase.Middlegame),
+    [GamePhase.Endgame]: getPhaseStats(GamePhase.Endgame),
+  };
+};
@@ -0,0 +1,144 @@
+import { KeyMomentType } from "@/types/enums";
+import { KeyMoment, PositionEval } from "@/types/eval";
+import {
+  ClassificationThresholds,
+  CLASSIFICATION_PROFILES,
+  DEFAULT_CLASSIFICATION_PROFILE,
+} from "./classificationProfiles";
+import { getHasChangedGameOutcome } from "./moveClassification";
+import { getPositionWinPercentage } from "./winPercentage";
+
+const MIN_KEY_MOMENTS_NB = 3;
+const MAX_KEY_MOMENTS_NB = 6;
+
+// Win percentages of the player who moves
+const MISSED_WIN_MIN_WIN_PERCENTAGE = 80;
+const MISSED_WIN_MAX_WIN_PERCENTAGE_AFTER = 65;
+
+interface KeyMomentCandidate {
+  positionIdx: number;
+  type: KeyMomentType;
+  playerLoss: number;
+  swing: number;
+}
+
+// Returns the turning points of the game, in the order they were played
+export const getKeyMoments = (
+  positions: PositionEval[],
+  thresholds: ClassificationThresholds = CLASSIFICATION_PROFILES[
+    DEFAULT_CLASSIFICATION_PROFILE
+  ]
+): KeyMoment[] => {
+  const positionsWinPercentage = positions.map(getPositionWinPercentage);
+
+  const candidates: KeyMomentCandidate[] = positions
+    .slice(1)
+    .map((_, index) => {
+      const positionIdx = index + 1;
+      const isWhiteMove = positionIdx % 2 === 1;
+      const winPercentageBefore = positionsWinPercentage[positionIdx - 1];
+      const winPercentageAfter = positionsWinPercentage[positionIdx];
+
+      const playerLoss =
+        (winPercentageBefore - winPercentageAfter) * (isWhiteMove ? 1 : -1);
+
+      return {
+        positionIdx,
+        type: getKeyMomentType(
+          winPercentageBefore,
+          winPercentageAfter,
+          isWhiteMove,
+          thresholds
+        ),
+        playerLoss,
+        swing: Math.abs(winPercentageBefore - winPercentageAfter),
+      };
+    });
+
+  const sortedCandidates = [...candidates].sort((a, b) => b.swing - a.swing);
+
+  const turningPoints = sortedCandidates.filter(
+    (candidate) =>
+      candidate.type !== KeyMomentType.Drop ||
+      candidate.playerLoss >= thresholds.mistake
+  );
+
+  // Quiet games still get their largest drops
+  const smallerDrops = sortedCandidates.filter(
+    (candidate) =>
+      candidate.type === KeyMomentType.Drop &&
+      candidate.playerLoss > 0 &&
+      candidate.playerLoss < thresholds.mistake
+  );
+
+  return [
+    ...turningPoints,
+    ...smallerDrops.slice(
+      0,
+      Math.max(0, MIN_KEY_MOMENTS_NB - turningPoints.length)
+    ),
+  ]
+    .slice(0, MAX_KEY_MOMENTS_NB)
+    .sort((a, b) => a.positionIdx - b.positionIdx)
+    .map(({ positionIdx, type }) => {
+      const lastPosition = positions[positionIdx - 1];
+      const position = positions[positionIdx];
+
+      return {
+        positionIdx,
+        type,
+        winPercentageBefore: positionsWinPercentage[positionIdx - 1],
+        winPercentageAfter: positionsWinPercentage[positionIdx],
+        evalBefore: {
+          cp: lastPosition.lines[0].cp,
+          mate: lastPosition.lines[0].mate,
+        },
+        evalAfter: {
+          cp: position.lines[0].cp,
+          mate: position.lines[0].mate,
+        },
+        bestLine: lastPosition.lines[0].pv,
+      };
+    });
+};
+
+const getKeyMomentType = (
+  winPercentageBefore: number,
+  winPercentageAfter: number,
+  isWhiteMove: boolean,
+  thresholds: ClassificationThresholds
+): KeyMomentType => {
+  const playerWinPercentageBefore = isWhiteMove
+    ? winPercentageBefore
+    : 100 - winPercentageBefore;
+  const playerWinPercentageAfter = isWhiteMove
+    ? winPercentageAfter
+    : 100 - winPercentageAfter;
+
+  if (
+    playerWinPercentageBefore >= MISSED_WIN_MIN_WIN_PERCENTAGE &&
+    playerWinPercentageAfter < MISSED_WIN_MAX_WIN_PERCENTAGE_AFTER
+  ) {
+    return KeyMomentType.MissedWin;
+  }
+
+  // The outcome can turn in favour of either player
+  if (
+    getHasChangedGameOutcome(
+      winPercentageBefore,
+      winPercentageAfter,
+      isWhiteMove,
+      thresholds
+    ) ||
+    getHasChangedGameOutcome(
+      winPercentageBefore,
+      winPercentageAfter,
+      !isWhiteMove,
+      thresholds
+    )
+  ) {
+    return KeyMomentType.OutcomeChange;
+  }
+
+  return KeyMomentType.Drop;
+};
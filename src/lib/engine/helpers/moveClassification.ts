@@ -6,11 +6,19 @@ import {
 import { MoveClassification } from "@/types/enums";
 import { openings } from "@/data/openings";
 import { getIsPieceSacrifice, isSimplePieceRecapture } from "@/lib/chess";
+import {
+  CLASSIFICATION_PROFILES,
+  ClassificationThresholds,
+  DEFAULT_CLASSIFICATION_PROFILE,
+} from "./classificationProfiles";
 
 export const getMovesClassification = (
   rawPositions: PositionEval[],
   uciMoves: string[],
-  fens: string[]
+  fens: string[],
+  thresholds: ClassificationThresholds = CLASSIFICATION_PROFILES[
+    DEFAULT_CLASSIFICATION_PROFILE
+  ]
 ): PositionEval[] => {
   const positionsWinPercentage = rawPositions.map(getPositionWinPercentage);
   let currentOpening: string | undefined = undefined;
@@ -61,7 +69,8 @@ export const getMovesClassification = (
         playedMove,
         bestLinePvToPlay,
         fens[index - 1],
-        lastPositionAlternativeLineWinPercentage
+        lastPositionAlternativeLineWinPercentage,
+        thresholds
       )
     ) {
       return {
@@ -82,7 +91,8 @@ export const getMovesClassification = (
         isWhiteMove,
         lastPositionAlternativeLineWinPercentage,
         fenTwoMovesAgo,
-        uciNextTwoMoves
+        uciNextTwoMoves,
+        thresholds
       )
     ) {
       return {
@@ -92,6 +102,24 @@ export const getMovesClassification = (
       };
     }
 
+    if (
+      isGreatMove(
+        lastPositionWinPercentage,
+        positionWinPercentage,
+        isWhiteMove,
+        lastPositionAlternativeLineWinPercentage,
+        fenTwoMovesAgo,
+        uciNextTwoMoves,
+        thresholds
+      )
+    ) {
+      return {
+        ...rawPosition,
+        opening: currentOpening,
+        moveClassification: MoveClassification.Great,
+      };
+    }
+
     if (playedMove === prevPosition.bestMove) {
       return {
         ...rawPosition,
@@ -100,10 +128,30 @@ export const getMovesClassification = (
       };
     }
 
+    // Positions only known to label the last move have no search result
+    if (
+      index > 1 &&
+      !!rawPositions[index - 2].lines[0]?.pv.length &&
+      isMiss(
+        positionsWinPercentage[index - 2],
+        lastPositionWinPercentage,
+        positionWinPercentage,
+        isWhiteMove,
+        thresholds
+      )
+    ) {
+      return {
+        ...rawPosition,
+        opening: currentOpening,
+        moveClassification: MoveClassification.Miss,
+      };
+    }
+
     const moveClassification = getMoveBasicClassification(
       lastPositionWinPercentage,
       positionWinPercentage,
-      isWhiteMove
+      isWhiteMove,
+      thresholds
     );
 
     return {
@@ -119,16 +167,23 @@ export const getMovesClassification = (
 const getMoveBasicClassification = (
   lastPositionWinPercentage: number,
   positionWinPercentage: number,
-  isWhiteMove: boolean
+  isWhiteMove: boolean,
+  thresholds: ClassificationThresholds
 ): MoveClassification => {
   const winPercentageDiff =
     (positionWinPercentage - lastPositionWinPercentage) *
     (isWhiteMove ? 1 : -1);
 
-  if (winPercentageDiff < -20) return MoveClassification.Blunder;
-  if (winPercentageDiff < -10) return MoveClassification.Mistake;
-  if (winPercentageDiff < -5) return MoveClassification.Inaccuracy;
-  if (winPercentageDiff < -2) return MoveClassification.Okay;
+  if (winPercentageDiff < -thresholds.blunder) {
+    return MoveClassification.Blunder;
+  }
+  if (winPercentageDiff < -thresholds.mistake) {
+    return MoveClassification.Mistake;
+  }
+  if (winPercentageDiff < -thresholds.inaccuracy) {
+    return MoveClassification.Inaccuracy;
+  }
+  if (winPercentageDiff < -thresholds.okay) return MoveClassification.Okay;
   return MoveClassification.Excellent;
 };
 
@@ -139,14 +194,15 @@ const isSplendidMove = (
   playedMove: string,
   bestLinePvToPlay: string[],
   fen: string,
-  lastPositionAlternativeLineWinPercentage: number | undefined
+  lastPositionAlternativeLineWinPercentage: number | undefined,
+  thresholds: ClassificationThresholds
 ): boolean => {
   if (!lastPositionAlternativeLineWinPercentage) return false;
 
   const winPercentageDiff =
     (positionWinPercentage - lastPositionWinPercentage) *
     (isWhiteMove ? 1 : -1);
-  if (winPercentageDiff < -2) return false;
+  if (winPercentageDiff < -thresholds.goodMoveMaxLoss) return false;
 
   const isPieceSacrifice = getIsPieceSacrifice(
     fen,
@@ -159,7 +215,8 @@ const isSplendidMove = (
     isLosingOrAlternateCompletelyWinning(
       positionWinPercentage,
       lastPositionAlternativeLineWinPercentage,
-      isWhiteMove
+      isWhiteMove,
+      thresholds
     )
   ) {
     return false;
@@ -171,14 +228,17 @@ const isSplendidMove = (
 const isLosingOrAlternateCompletelyWinning = (
   positionWinPercentage: number,
   lastPositionAlternativeLineWinPercentage: number,
-  isWhiteMove: boolean
+  isWhiteMove: boolean,
+  thresholds: ClassificationThresholds
 ): boolean => {
   const isLosing = isWhiteMove
     ? positionWinPercentage < 50
     : positionWinPercentage > 50;
   const isAlternateCompletelyWinning = isWhiteMove
-    ? lastPositionAlternativeLineWinPercentage > 97
-    : lastPositionAlternativeLineWinPercentage < 3;
+    ? lastPositionAlternativeLineWinPercentage >
+      thresholds.alternateCompletelyWinning
+    : lastPositionAlternativeLineWinPercentage <
+      100 - thresholds.alternateCompletelyWinning;
 
   return isLosing || isAlternateCompletelyWinning;
 };
@@ -189,14 +249,15 @@ const isPerfectMove = (
   isWhiteMove: boolean,
   lastPositionAlternativeLineWinPercentage: number | undefined,
   fenTwoMovesAgo: string | null,
-  uciMoves: [string, string] | null
+  uciMoves: [string, string] | null,
+  thresholds: ClassificationThresholds
 ): boolean => {
   if (!lastPositionAlternativeLineWinPercentage) return false;
 
   const winPercentageDiff =
     (positionWinPercentage - lastPositionWinPercentage) *
     (isWhiteMove ? 1 : -1);
-  if (winPercentageDiff < -2) return false;
+  if (winPercentageDiff < -thresholds.goodMoveMaxLoss) return false;
 
   if (
     fenTwoMovesAgo &&
@@ -209,7 +270,8 @@ const isPerfectMove = (
     isLosingOrAlternateCompletelyWinning(
       positionWinPercentage,
       lastPositionAlternativeLineWinPercentage,
-      isWhiteMove
+      isWhiteMove,
+      thresholds
     )
   ) {
     return false;
@@ -218,28 +280,93 @@ const isPerfectMove = (
   const hasChangedGameOutcome = getHasChangedGameOutcome(
     lastPositionWinPercentage,
     positionWinPercentage,
-    isWhiteMove
+    isWhiteMove,
+    thresholds
   );
 
   const isTheOnlyGoodMove = getIsTheOnlyGoodMove(
     positionWinPercentage,
     lastPositionAlternativeLineWinPercentage,
-    isWhiteMove
+    isWhiteMove,
+    thresholds
   );
 
   return hasChangedGameOutcome || isTheOnlyGoodMove;
 };
 
-const getHasChangedGameOutcome = (
+// The only move that holds a balanced position, where a perfect move would need to be winning
+const isGreatMove = (
+  lastPositionWinPercentage: number,
+  positionWinPercentage: number,
+  isWhiteMove: boolean,
+  lastPositionAlternativeLineWinPercentage: number | undefined,
+  fenTwoMovesAgo: string | null,
+  uciMoves: [string, string] | null,
+  thresholds: ClassificationThresholds
+): boolean => {
+  if (lastPositionAlternativeLineWinPercentage === undefined) return false;
+
+  const winPercentageDiff =
+    (positionWinPercentage - lastPositionWinPercentage) *
+    (isWhiteMove ? 1 : -1);
+  if (winPercentageDiff < -thresholds.goodMoveMaxLoss) return false;
+
+  if (
+    fenTwoMovesAgo &&
+    uciMoves &&
+    isSimplePieceRecapture(fenTwoMovesAgo, uciMoves)
+  )
+    return false;
+
+  const playerWinPercentage = isWhiteMove
+    ? positionWinPercentage
+    : 100 - positionWinPercentage;
+  if (Math.abs(playerWinPercentage - 50) > thresholds.greatMoveBalanceMaxGap) {
+    return false;
+  }
+
+  return getIsTheOnlyGoodMove(
+    positionWinPercentage,
+    lastPositionAlternativeLineWinPercentage,
+    isWhiteMove,
+    thresholds
+  );
+};
+
+// The opponent just blundered and the move gives most of that advantage back
+const isMiss = (
+  positionWinPercentageTwoMovesAgo: number,
+  lastPositionWinPercentage: number,
+  positionWinPercentage: number,
+  isWhiteMove: boolean,
+  thresholds: ClassificationThresholds
+): boolean => {
+  const playerSign = isWhiteMove ? 1 : -1;
+
+  const opponentBlunderGain =
+    (lastPositionWinPercentage - positionWinPercentageTwoMovesAgo) * playerSign;
+  if (opponentBlunderGain <= thresholds.opponentBlunderMinGain) return false;
+
+  const winPercentageDiff =
+    (positionWinPercentage - lastPositionWinPercentage) * playerSign;
+  if (winPercentageDiff >= -thresholds.missMinLoss) return false;
+
+  const keptGain =
+    (positionWinPercentage - positionWinPercentageTwoMovesAgo) * playerSign;
+  return keptGain < opponentBlunderGain / 2;
+};
+
+export const getHasChangedGameOutcome = (
   lastPositionWinPercentage: number,
   positionWinPercentage: number,
-  isWhiteMove: boolean
+  isWhiteMove: boolean,
+  thresholds: ClassificationThresholds
 ): boolean => {
   const winPercentageDiff =
     (positionWinPercentage - lastPositionWinPercentage) *
     (isWhiteMove ? 1 : -1);
   return (
-    winPercentageDiff > 10 &&
+    winPercentageDiff > thresholds.changedOutcomeMinGain &&
     ((lastPositionWinPercentage < 50 && positionWinPercentage > 50) ||
       (lastPositionWinPercentage > 50 && positionWinPercentage < 50))
   );
@@ -248,10 +375,11 @@ const getHasChangedGameOutcome = (
 const getIsTheOnlyGoodMove = (
   positionWinPercentage: number,
   lastPositionAlternativeLineWinPercentage: number,
-  isWhiteMove: boolean
+  isWhiteMove: boolean,
+  thresholds: ClassificationThresholds
 ): boolean => {
   const winPercentageDiff =
     (positionWinPercentage - lastPositionAlternativeLineWinPercentage) *
     (isWhiteMove ? 1 : -1);
-  return winPercentageDiff > 10;
+  return winPercentageDiff > thresholds.onlyGoodMoveMinGap;
 };
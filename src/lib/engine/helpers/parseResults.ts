@@ -1,5 +1,6 @@
 import { formatUciPv } from "@/lib/chess";
-import { LineEval, PositionEval } from "@/types/eval";
+import { UciOption } from "@/types/engine";
+import { LineEval, PositionEval, SearchStats } from "@/types/eval";
 
 export const parseEvaluationResults = (
   results: string[],
@@ -9,6 +10,7 @@ export const parseEvaluationResults = (
     lines: [],
   };
   const tempResults: Record<string, LineEval> = {};
+  let searchStats: SearchStats = {};
 
   for (const result of results) {
     if (result.startsWith("bestmove")) {
@@ -19,6 +21,9 @@ export const parseEvaluationResults = (
     }
 
     if (result.startsWith("info")) {
+      const stats = getResultStats(result);
+      if (stats.nodes !== undefined) searchStats = stats;
+
       const pv = getResultPv(result, fen);
       const multiPv = getResultProperty(result, "multipv");
       const depth = getResultProperty(result, "depth");
@@ -33,18 +38,22 @@ export const parseEvaluationResults = (
 
       const cp = getResultProperty(result, "cp");
       const mate = getResultProperty(result, "mate");
+      const wdl = getResultWdl(result);
 
       tempResults[multiPv] = {
         pv,
         cp: cp ? parseInt(cp) : undefined,
         mate: mate ? parseInt(mate) : undefined,
+        wdl,
         depth: parseInt(depth),
         multiPv: parseInt(multiPv),
+        ...stats,
       };
     }
   }
 
   parsedResults.lines = Object.values(tempResults).sort(sortLines);
+  Object.assign(parsedResults, searchStats);
 
   const whiteToPlay = fen.split(" ")[1] === "w";
   if (!whiteToPlay) {
@@ -52,6 +61,7 @@ export const parseEvaluationResults = (
       ...line,
       cp: line.cp ? -line.cp : line.cp,
       mate: line.mate ? -line.mate : line.mate,
+      wdl: line.wdl ? [line.wdl[2], line.wdl[1], line.wdl[0]] : line.wdl,
     }));
   }
 
@@ -90,6 +100,42 @@ export const getResultProperty = (
   return splitResult[propertyIndex + 1];
 };
 
+const SEARCH_STATS_FIELDS: (keyof SearchStats)[] = [
+  "seldepth",
+  "nodes",
+  "nps",
+  "time",
+  "hashfull",
+  "tbhits",
+];
+
+const getResultStats = (result: string): SearchStats => {
+  const stats: SearchStats = {};
+
+  for (const field of SEARCH_STATS_FIELDS) {
+    const value = getResultProperty(result, field);
+    if (value) stats[field] = parseInt(value);
+  }
+
+  return stats;
+};
+
+const getResultWdl = (result: string): [number, number, number] | undefined => {
+  const splitResult = result.split(" ");
+  const wdlIndex = splitResult.indexOf("wdl");
+
+  if (wdlIndex === -1 || wdlIndex + 3 >= splitResult.length) {
+    return undefined;
+  }
+
+  const [win, draw, loss] = splitResult
+    .slice(wdlIndex + 1, wdlIndex + 4)
+    .map((value) => parseInt(value));
+  if ([win, draw, loss].some(isNaN)) return undefined;
+
+  return [win, draw, loss];
+};
+
 const getResultPv = (result: string, fen: string): string[] | undefined => {
   const splitResult = result.split(" ");
   const pvIndex = splitResult.indexOf("pv");
@@ -101,3 +147,63 @@ const getResultPv = (result: string, fen: string): string[] | undefined => {
   const rawPv = splitResult.slice(pvIndex + 1);
   return formatUciPv(fen, rawPv);
 };
+
+const UCI_OPTION_KEYWORDS = ["name", "type", "default", "min", "max", "var"];
+
+export const parseUciOptions = (results: string[]): UciOption[] => {
+  const options: UciOption[] = [];
+
+  for (const result of results) {
+    if (!result.startsWith("option ")) continue;
+
+    const fields: Record<string, string> = {};
+    const vars: string[] = [];
+    let keyword: string | undefined = undefined;
+
+    // Values may contain spaces, they run until the next keyword
+    for (const token of result.split(" ").slice(1)) {
+      if (UCI_OPTION_KEYWORDS.includes(token)) {
+        keyword = token;
+        if (token === "var") vars.push("");
+        continue;
+      }
+      if (!keyword) continue;
+
+      if (keyword === "var") {
+        vars[vars.length - 1] = `${vars[vars.length - 1]} ${token}`.trim();
+      } else {
+        fields[keyword] = `${fields[keyword] ?? ""} ${token}`.trim();
+      }
+    }
+
+    const { name, type, default: defaultValue = "" } = fields;
+    if (!name) continue;
+
+    switch (type) {
+      case "spin":
+        options.push({
+          name,
+          type,
+          default: parseInt(defaultValue),
+          min: parseInt(fields.min ?? defaultValue),
+          max: parseInt(fields.max ?? defaultValue),
+        });
+        break;
+      case "check":
+        options.push({ name, type, default: defaultValue === "true" });
+        break;
+      case "combo":
+        options.push({ name, type, default: defaultValue, vars });
+        break;
+      case "string":
+        options.push({
+          name,
+          type,
+          default: defaultValue === "<empty>" ? "" : defaultValue,
+        });
+        break;
+    }
+  }
+
+  return options;
+};
@@ -0,0 +1,40 @@
+import { SearchLimits } from "@/types/eval";
+
+const MIN_POSITION_MOVETIME = 50;
+
+export const getGoCommand = (
+  depth: number,
+  { movetime, nodes }: Omit<SearchLimits, "totalTime"> = {},
+  searchMoves?: string[]
+): string => {
+  let command = `go depth ${depth}`;
+
+  if (movetime) command += ` movetime ${Math.round(movetime)}`;
+  if (nodes) command += ` nodes ${Math.round(nodes)}`;
+  // Engines read moves until the end of the command, so it must come last
+  if (searchMoves?.length) command += ` searchmoves ${searchMoves.join(" ")}`;
+
+  return command;
+};
+
+export const getPositionMovetime = ({
+  movetime,
+  totalTime,
+  positionsNb,
+  workersNb,
+}: {
+  movetime?: number;
+  totalTime?: number;
+  positionsNb: number;
+  workersNb: number;
+}): number | undefined => {
+  if (!totalTime || positionsNb < 1) return movetime;
+
+  // Positions are searched in parallel, so each worker gets its share of the budget
+  const movetimeFromBudget = Math.max(
+    MIN_POSITION_MOVETIME,
+    Math.floor((totalTime * Math.max(1, workersNb)) / positionsNb)
+  );
+
+  return movetime ? Math.min(movetime, movetimeFromBudget) : movetimeFromBudget;
+};
@@ -6,6 +6,10 @@ export const getPositionWinPercentage = (position: PositionEval): number => {
 };
 
 export const getLineWinPercentage = (line: LineEval): number => {
+  if (line.wdl) {
+    return getWinPercentageFromWdl(line.wdl);
+  }
+
   if (line.cp !== undefined) {
     return getWinPercentageFromCp(line.cp);
   }
@@ -17,6 +21,18 @@ export const getLineWinPercentage = (line: LineEval): number => {
   throw new Error("No cp or mate in line");
 };
 
+// Expected score of the engine's own WDL model, a draw counting as half a win
+const getWinPercentageFromWdl = ([win, draw, loss]: [
+  number,
+  number,
+  number,
+]): number => {
+  const total = win + draw + loss;
+  if (!total) return 50;
+
+  return (100 * (win + draw / 2)) / total;
+};
+
 const getWinPercentageFromMate = (mate: number): number => {
   return mate > 0 ? 100 : 0;
 };
@@ -0,0 +1,162 @@
+import { ENGINE_LABELS } from "@/constants";
+import { MatchGame, MatchResult, MatchSide } from "@/types/engine";
+import { Chess, DEFAULT_POSITION } from "chess.js";
+import { uciMoveParams } from "../chess";
+import { createEngine } from "./shared";
+import { UciEngine } from "./uciEngine";
+
+// Games still running after this many plies are adjudicated as draws
+const MAX_GAME_PLIES = 400;
+
+export const runEngineMatch = async ({
+  first,
+  second,
+  gamesNb,
+  openingFens = [DEFAULT_POSITION],
+  signal,
+  onGameEnd,
+}: {
+  first: MatchSide;
+  second: MatchSide;
+  gamesNb: number;
+  openingFens?: string[];
+  signal?: AbortSignal;
+  onGameEnd?: (game: Chess, result: MatchResult) => void;
+}): Promise<MatchResult> => {
+  const firstEngine = await createEngine(first.engine);
+  let secondEngine: UciEngine | undefined = undefined;
+  const games: MatchGame[] = [];
+
+  try {
+    secondEngine = await createEngine(second.engine);
+
+    for (let i = 0; i < gamesNb; i++) {
+      signal?.throwIfAborted();
+
+      // Each opening is played twice, once with each colour
+      const fen = openingFens[Math.floor(i / 2) % openingFens.length];
+      const isFirstWhite = i % 2 === 0;
+
+      const game = await playMatchGame({
+        fen,
+        white: isFirstWhite
+          ? { ...first, uciEngine: firstEngine }
+          : { ...second, uciEngine: secondEngine },
+        black: isFirstWhite
+          ? { ...second, uciEngine: secondEngine }
+          : { ...first, uciEngine: firstEngine },
+        round: i + 1,
+        signal,
+      });
+
+      const result = game.getHeaders().Result;
+      const whiteScore = result === "1-0" ? 1 : result === "0-1" ? 0 : 0.5;
+      games.push({
+        pgn: game.pgn(),
+        score: isFirstWhite ? whiteScore : 1 - whiteScore,
+      });
+
+      onGameEnd?.(game, getMatchResult(games));
+    }
+  } finally {
+    firstEngine.shutdown();
+    secondEngine?.shutdown();
+  }
+
+  return getMatchResult(games);
+};
+
+const playMatchGame = async ({
+  fen,
+  white,
+  black,
+  round,
+  signal,
+}: {
+  fen: string;
+  white: MatchSide & { uciEngine: UciEngine };
+  black: MatchSide & { uciEngine: UciEngine };
+  round: number;
+  signal?: AbortSignal;
+}): Promise<Chess> => {
+  const game = new Chess(fen);
+  game.setHeader("Event", "Engine match");
+  game.setHeader("Round", `${round}`);
+  game.setHeader("Date", new Date().toISOString().split("T")[0]);
+  game.setHeader("White", getSideLabel(white));
+  game.setHeader("Black", getSideLabel(black));
+  if (white.elo) game.setHeader("WhiteElo", `${white.elo}`);
+  if (black.elo) game.setHeader("BlackElo", `${black.elo}`);
+
+  let plies = 0;
+  while (!game.isGameOver() && plies < MAX_GAME_PLIES) {
+    const side = game.turn() === "w" ? white : black;
+    const move = await side.uciEngine.getEngineNextMove(
+      game.fen(),
+      side.elo,
+      side.depth,
+      { movetime: side.movetime, signal }
+    );
+    if (!move) break;
+
+    game.move(uciMoveParams(move));
+    plies++;
+  }
+
+  if (game.isCheckmate()) {
+    game.setHeader("Result", game.turn() === "w" ? "0-1" : "1-0");
+    game.setHeader("Termination", "Checkmate");
+  } else {
+    game.setHeader("Result", "1/2-1/2");
+    game.setHeader(
+      "Termination",
+      game.isGameOver() ? "Draw" : "Adjudicated draw after move limit"
+    );
+  }
+
+  return game;
+};
+
+const getSideLabel = (side: MatchSide): string => {
+  const limits = [
+    `depth ${side.depth}`,
+    side.movetime ? `${side.movetime}ms` : undefined,
+  ].filter(Boolean);
+
+  return `${ENGINE_LABELS[side.engine].small} (${limits.join(", ")})`;
+};
+
+export const getMatchResult = (games: MatchGame[]): MatchResult => {
+  const wins = games.filter(({ score }) => score === 1).length;
+  const losses = games.filter(({ score }) => score === 0).length;
+  const draws = games.length - wins - losses;
+
+  return { games, wins, draws, losses, ...getMatchEloDifference(games) };
+};
+
+// Elo difference of the first engine, with the half width of its 95% confidence interval
+export const getMatchEloDifference = (
+  games: MatchGame[]
+): { eloDiff: number; eloError: number } => {
+  if (!games.length) return { eloDiff: 0, eloError: 0 };
+
+  const score = games.reduce((acc, game) => acc + game.score, 0) / games.length;
+  const variance =
+    games.reduce((acc, game) => acc + (game.score - score) ** 2, 0) /
+    games.length;
+  const scoreError = 1.96 * Math.sqrt(variance / games.length);
+
+  const eloDiff = getEloFromScore(score);
+  const eloError =
+    (getEloFromScore(score + scoreError) -
+      getEloFromScore(score - scoreError)) /
+    2;
+
+  return { eloDiff, eloError };
+};
+
+const getEloFromScore = (score: number): number => {
+  // A perfect score has an infinite Elo difference, keep it displayable
+  const boundedScore = Math.min(0.999, Math.max(0.001, score));
+  return -400 * Math.log10(1 / boundedScore - 1);
+};
@@ -0,0 +1,29 @@
+import { EngineName } from "@/types/enums";
+import { UciEngine } from "./uciEngine";
+
+export const REMOTE_ENGINE_URL_STORAGE_KEY = "remoteEngineUrl";
+export const DEFAULT_REMOTE_ENGINE_URL = "ws://localhost:8080";
+
+// Stored as JSON by the settings atom
+export const getRemoteEngineUrl = (): string => {
+  try {
+    const storedUrl = localStorage.getItem(REMOTE_ENGINE_URL_STORAGE_KEY);
+    return storedUrl ? JSON.parse(storedUrl) : DEFAULT_REMOTE_ENGINE_URL;
+  } catch {
+    return DEFAULT_REMOTE_ENGINE_URL;
+  }
+};
+
+export class RemoteEngine {
+  public static async create(url = getRemoteEngineUrl()): Promise<UciEngine> {
+    if (!RemoteEngine.isSupported()) {
+      throw new Error("Remote engines are not supported");
+    }
+
+    return UciEngine.create(EngineName.Remote, url);
+  }
+
+  public static isSupported() {
+    return typeof WebSocket !== "undefined";
+  }
+}
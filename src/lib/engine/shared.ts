@@ -1,8 +1,10 @@
 import { EngineName } from "@/types/enums";
+import { RemoteEngine } from "./remoteEngine";
 import { Stockfish11 } from "./stockfish11";
 import { Stockfish16 } from "./stockfish16";
 import { Stockfish16_1 } from "./stockfish16_1";
 import { Stockfish17 } from "./stockfish17";
+import { UciEngine } from "./uciEngine";
 
 export const isWasmSupported = () =>
   typeof WebAssembly === "object" &&
@@ -23,6 +25,30 @@ export const isIosDevice = () => /iPhone|iPad|iPod/i.test(navigator.userAgent);
 export const isMobileDevice = () =>
   isIosDevice() || /Android|Opera Mini/i.test(navigator.userAgent);
 
+export const createEngine = (
+  name: EngineName,
+  remoteEngineUrl?: string
+): Promise<UciEngine> => {
+  switch (name) {
+    case EngineName.Stockfish17:
+      return Stockfish17.create(false);
+    case EngineName.Stockfish17Lite:
+      return Stockfish17.create(true);
+    case EngineName.Stockfish16_1:
+      return Stockfish16_1.create(false);
+    case EngineName.Stockfish16_1Lite:
+      return Stockfish16_1.create(true);
+    case EngineName.Stockfish16:
+      return Stockfish16.create(false);
+    case EngineName.Stockfish16NNUE:
+      return Stockfish16.create(true);
+    case EngineName.Stockfish11:
+      return Stockfish11.create();
+    case EngineName.Remote:
+      return RemoteEngine.create(remoteEngineUrl);
+  }
+};
+
 export const isEngineSupported = (name: EngineName): boolean => {
   switch (name) {
     case EngineName.Stockfish17:
@@ -36,5 +62,7 @@ export const isEngineSupported = (name: EngineName): boolean => {
       return Stockfish16.isSupported();
     case EngineName.Stockfish11:
       return Stockfish11.isSupported();
+    case EngineName.Remote:
+      return RemoteEngine.isSupported();
   }
 };
@@ -3,9 +3,18 @@ import { UciEngine } from "./uciEngine";
 
 export class Stockfish11 {
   public static async create(): Promise<UciEngine> {
-    const enginePath = "/play/engines/stockfish-11.js";
+    return UciEngine.create(
+      EngineName.Stockfish11,
+      Stockfish11.getEnginePath()
+    );
+  }
+
+  public static getEnginePath(): string {
+    return "/play/engines/stockfish-11.js";
+  }
 
-    return UciEngine.create(EngineName.Stockfish11, enginePath);
+  public static getAssetPaths(): string[] {
+    return [Stockfish11.getEnginePath()];
   }
 
   public static isSupported() {
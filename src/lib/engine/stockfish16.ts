@@ -10,12 +10,9 @@ export class Stockfish16 {
       throw new Error("Stockfish 16 is not supported");
     }
 
-    const multiThreadIsSupported = isMultiThreadSupported();
-    if (!multiThreadIsSupported) console.log("Single thread mode");
+    if (!isMultiThreadSupported()) console.log("Single thread mode");
 
-    const enginePath = multiThreadIsSupported
-      ? "/play/engines/stockfish-16/stockfish-nnue-16.js"
-      : "/play/engines/stockfish-16/stockfish-nnue-16-single.js";
+    const enginePath = Stockfish16.getEnginePath();
 
     const customEngineInit = async (worker: EngineWorker) => {
       await sendCommandsToWorker(
@@ -32,6 +29,18 @@ export class Stockfish16 {
     return UciEngine.create(engineName, enginePath, customEngineInit);
   }
 
+  // The same files run with or without NNUE
+  public static getEnginePath(): string {
+    return isMultiThreadSupported()
+      ? "/play/engines/stockfish-16/stockfish-nnue-16.js"
+      : "/play/engines/stockfish-16/stockfish-nnue-16-single.js";
+  }
+
+  public static getAssetPaths(): string[] {
+    const enginePath = Stockfish16.getEnginePath();
+    return [enginePath, enginePath.replace(/\.js$/, ".wasm")];
+  }
+
   public static isSupported() {
     return isWasmSupported();
   }
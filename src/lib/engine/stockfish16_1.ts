@@ -8,12 +8,9 @@ export class Stockfish16_1 {
       throw new Error("Stockfish 16.1 is not supported");
     }
 
-    const multiThreadIsSupported = isMultiThreadSupported();
-    if (!multiThreadIsSupported) console.log("Single thread mode");
+    if (!isMultiThreadSupported()) console.log("Single thread mode");
 
-    const enginePath = `/play/engines/stockfish-16.1/stockfish-16.1${
-      lite ? "-lite" : ""
-    }${multiThreadIsSupported ? "" : "-single"}.js`;
+    const enginePath = Stockfish16_1.getEnginePath(lite);
 
     const engineName = lite
       ? EngineName.Stockfish16_1Lite
@@ -22,6 +19,17 @@ export class Stockfish16_1 {
     return UciEngine.create(engineName, enginePath);
   }
 
+  public static getEnginePath(lite?: boolean): string {
+    return `/play/engines/stockfish-16.1/stockfish-16.1${
+      lite ? "-lite" : ""
+    }${isMultiThreadSupported() ? "" : "-single"}.js`;
+  }
+
+  public static getAssetPaths(lite?: boolean): string[] {
+    const enginePath = Stockfish16_1.getEnginePath(lite);
+    return [enginePath, enginePath.replace(/\.js$/, ".wasm")];
+  }
+
   public static isSupported() {
     return isWasmSupported();
   }
@@ -2,18 +2,17 @@ import { EngineName } from "@/types/enums";
 import { UciEngine } from "./uciEngine";
 import { isMultiThreadSupported, isWasmSupported } from "./shared";
 
+const WASM_PARTS_NB = 6;
+
 export class Stockfish17 {
   public static async create(lite?: boolean): Promise<UciEngine> {
     if (!Stockfish17.isSupported()) {
       throw new Error("Stockfish 17 is not supported");
     }
 
-    const multiThreadIsSupported = isMultiThreadSupported();
-    if (!multiThreadIsSupported) console.log("Single thread mode");
+    if (!isMultiThreadSupported()) console.log("Single thread mode");
 
-    const enginePath = `/play/engines/stockfish-17/stockfish-17${
-      lite ? "-lite" : ""
-    }${multiThreadIsSupported ? "" : "-single"}.js`;
+    const enginePath = Stockfish17.getEnginePath(lite);
 
     const engineName = lite
       ? EngineName.Stockfish17Lite
@@ -22,6 +21,28 @@ export class Stockfish17 {
     return UciEngine.create(engineName, enginePath);
   }
 
+  public static getEnginePath(lite?: boolean): string {
+    return `/play/engines/stockfish-17/stockfish-17${
+      lite ? "-lite" : ""
+    }${isMultiThreadSupported() ? "" : "-single"}.js`;
+  }
+
+  // The full engine loads its WASM binary in several parts
+  public static getAssetPaths(lite?: boolean): string[] {
+    const enginePath = Stockfish17.getEnginePath(lite);
+    const wasmPathPrefix = enginePath.replace(/\.js$/, "");
+
+    return [
+      enginePath,
+      ...(lite
+        ? [`${wasmPathPrefix}.wasm`]
+        : Array.from(
+            { length: WASM_PARTS_NB },
+            (_, i) => `${wasmPathPrefix}-part-${i}.wasm`
+          )),
+    ];
+  }
+
   public static isSupported() {
     return isWasmSupported();
   }
@@ -3,31 +3,87 @@ import {
   EvaluateGameParams,
   EvaluatePositionWithUpdateParams,
   GameEval,
+  LineEval,
   PositionEval,
+  SearchLimits,
 } from "@/types/eval";
 import {
   getResultProperty,
   parseEvaluationResults,
+  parseUciOptions,
 } from "./helpers/parseResults";
 import { computeAccuracy } from "./helpers/accuracy";
-import { getIsStalemate, getWhoIsCheckmated } from "../chess";
+import { getIsStalemate, getLegalMovesNb, getWhoIsCheckmated } from "../chess";
 import { getLichessEval } from "../lichess";
 import { getMovesClassification } from "./helpers/moveClassification";
+import { getCriticalPositionIndexes } from "./helpers/criticalPositions";
+import {
+  CLASSIFICATION_PROFILES,
+  getClassificationProfile,
+} from "./helpers/classificationProfiles";
 import { computeEstimatedElo } from "./helpers/estimateElo";
-import { EngineWorker, WorkerJob } from "@/types/engine";
+import { computeGamePhasesStats, getGamePhases } from "./helpers/gamePhases";
+import { getKeyMoments } from "./helpers/keyMoments";
+import {
+  EngineWorker,
+  UciOption,
+  UciOptionValues,
+  WorkerJob,
+} from "@/types/engine";
 import { getEngineWorker, sendCommandsToWorker } from "./worker";
+import { getGoCommand, getPositionMovetime } from "./helpers/searchLimits";
+import { getCachedEval, setCachedEval } from "./evalCache";
+import { EngineCrashError, EngineJobAbortedError } from "./errors";
+
+const INFINITE_PARTIAL_EVAL_INTERVAL = 300;
+const WORKER_STALL_TIMEOUT = 60_000;
+const MAX_JOB_ATTEMPTS = 3;
+
+// Adaptive depth: critical positions are searched again, deeper and with larger limits
+const SECOND_PASS_EXTRA_DEPTH = 4;
+const SECOND_PASS_LIMITS_FACTOR = 4;
+const SECOND_PASS_MAX_POSITIONS_RATIO = 0.25;
+const SECOND_PASS_TIME_RATIO = 0.2;
+
+// Live analysis: hash size in MB given to each thread of the single worker
+const HASH_SIZE_PER_THREAD = 32;
+
+type JobLimits = Omit<SearchLimits, "totalTime"> & { signal?: AbortSignal };
+
+// Options already driven by the engine settings or by UciEngine itself
+const MANAGED_UCI_OPTIONS = [
+  "MultiPV",
+  "UCI_LimitStrength",
+  "UCI_Elo",
+  "UCI_ShowWDL",
+  "UCI_Chess960",
+  "UCI_AnalyseMode",
+  "Ponder",
+  "Use NNUE",
+  "EvalFile",
+  "EvalFileSmall",
+  "SyzygyPath",
+  "Debug Log File",
+];
 
 export class UciEngine {
   public readonly name: EngineName;
   private workers: EngineWorker[] = [];
   private workerQueue: WorkerJob[] = [];
+  private runningJobs = new Map<EngineWorker, WorkerJob>();
+  // Commands sent to every worker wait for each busy worker to be released
+  private workerWaiters = new Map<EngineWorker, (() => void)[]>();
   private isReady = false;
+  private isShutdown = false;
   private enginePath: string;
   private customEngineInit?:
     | ((worker: EngineWorker) => Promise<void>)
     | undefined = undefined;
   private multiPv = 3;
   private elo: number | undefined = undefined;
+  private threadsNb = 1;
+  private uciOptions: UciOption[] = [];
+  private uciOptionValues: UciOptionValues = {};
 
   private constructor(
     engineName: EngineName,
@@ -64,27 +120,105 @@ export class UciEngine {
   }
 
   private async releaseWorker(worker: EngineWorker) {
+    if (!this.workers.includes(worker)) return;
+
+    const nextWaiter = this.workerWaiters.get(worker)?.shift();
+    if (nextWaiter) {
+      nextWaiter();
+      return;
+    }
+
     const nextJob = this.workerQueue.shift();
     if (!nextJob) {
       worker.isReady = true;
       return;
     }
 
-    const res = await sendCommandsToWorker(
-      worker,
-      nextJob.commands,
-      nextJob.finalMessage,
-      nextJob.onNewMessage
-    );
+    this.runJob(worker, nextJob);
+  }
+
+  private async runJob(worker: EngineWorker, job: WorkerJob) {
+    this.runningJobs.set(worker, job);
+
+    // The worker must still reach its final message before it can be reused
+    const { signal } = job.abortController;
+    const stopOnAbort = () => worker.uci("stop");
+    signal.addEventListener("abort", stopOnAbort);
+
+    let res: string[];
+    try {
+      res = await sendCommandsToWorker(
+        worker,
+        job.commands,
+        job.finalMessage,
+        job.onNewMessage,
+        job.stallTimeout
+      );
+    } catch (error) {
+      this.recoverFromWorkerFailure(worker, error, job);
+      return;
+    } finally {
+      signal.removeEventListener("abort", stopOnAbort);
+      if (this.runningJobs.get(worker) === job) this.runningJobs.delete(worker);
+    }
 
     this.releaseWorker(worker);
-    nextJob.resolve(res);
+
+    if (signal.aborted) {
+      job.reject(signal.reason);
+      return;
+    }
+    job.resolve(res);
+  }
+
+  private async recoverFromWorkerFailure(
+    deadWorker: EngineWorker,
+    error: unknown,
+    job?: WorkerJob
+  ) {
+    this.workers = this.workers.filter((worker) => worker !== deadWorker);
+    this.terminateWorker(deadWorker);
+
+    if (job) {
+      job.attempts++;
+      if (job.abortController.signal.aborted) {
+        job.reject(job.abortController.signal.reason);
+      } else if (job.attempts >= MAX_JOB_ATTEMPTS) {
+        job.reject(new EngineCrashError(this.name, job.attempts, error));
+      } else {
+        this.workerQueue.unshift(job);
+      }
+    }
+
+    if (this.isShutdown) return;
+
+    try {
+      await this.addNewWorker();
+    } catch (respawnError) {
+      // Other workers will pick up the queue, otherwise nothing can run it anymore
+      if (this.workers.length) return;
+
+      const queuedJobs = this.workerQueue;
+      this.workerQueue = [];
+      for (const queuedJob of queuedJobs) {
+        queuedJob.reject(
+          new EngineCrashError(this.name, queuedJob.attempts + 1, respawnError)
+        );
+      }
+    }
   }
 
   private async setMultiPv(multiPv: number) {
     if (multiPv === this.multiPv) return;
 
-    if (multiPv < 2 || multiPv > 6) {
+    const multiPvOption = this.uciOptions.find(
+      ({ name }) => name === "MultiPV"
+    );
+    if (
+      multiPv < 1 ||
+      (multiPvOption?.type === "spin" &&
+        (multiPv < multiPvOption.min || multiPv > multiPvOption.max))
+    ) {
       throw new Error(`Invalid MultiPV value : ${multiPv}`);
     }
 
@@ -96,9 +230,18 @@ export class UciEngine {
     this.multiPv = multiPv;
   }
 
-  private async setElo(elo: number) {
+  private async setElo(elo: number | undefined) {
     if (elo === this.elo) return;
 
+    if (elo === undefined) {
+      await this.sendCommandsToEachWorker(
+        ["setoption name UCI_LimitStrength value false", "isready"],
+        "readyok"
+      );
+      this.elo = undefined;
+      return;
+    }
+
     if (elo < 800 || elo > 3190) {
       throw new Error(`Invalid Elo value : ${elo}`);
     }
@@ -116,6 +259,62 @@ export class UciEngine {
     this.elo = elo;
   }
 
+  // Several threads only make sense with a single worker searching one position
+  private async setThreadsNb(threadsNb: number) {
+    const threadsOption = this.uciOptions.find(
+      ({ name }) => name === "Threads"
+    );
+    const newThreadsNb =
+      threadsOption?.type === "spin"
+        ? Math.min(Math.max(threadsNb, threadsOption.min), threadsOption.max)
+        : 1;
+    if (newThreadsNb === this.threadsNb) return;
+
+    const threadsOptionValues = getThreadsOptionValues(
+      newThreadsNb,
+      this.uciOptions,
+      this.uciOptionValues
+    );
+    if (Object.keys(threadsOptionValues).length) {
+      await this.sendCommandsToEachWorker(
+        [...getSetOptionCommands(threadsOptionValues), "isready"],
+        "readyok"
+      );
+    }
+
+    this.threadsNb = newThreadsNb;
+  }
+
+  public getUciOptions(): UciOption[] {
+    return this.uciOptions.filter(
+      (option) =>
+        !MANAGED_UCI_OPTIONS.includes(option.name) &&
+        (option.type !== "spin" || option.min < option.max)
+    );
+  }
+
+  public async setUciOptions(values: UciOptionValues): Promise<void> {
+    this.throwErrorIfNotReady();
+
+    const configurableOptions = this.getUciOptions();
+    const changedValues = Object.entries(values).filter(
+      ([name, value]) =>
+        this.uciOptionValues[name] !== value &&
+        configurableOptions.some((option) => option.name === name)
+    );
+    if (!changedValues.length) return;
+
+    await this.sendCommandsToEachWorker(
+      [...getSetOptionCommands(Object.fromEntries(changedValues)), "isready"],
+      "readyok"
+    );
+
+    this.uciOptionValues = {
+      ...this.uciOptionValues,
+      ...Object.fromEntries(changedValues),
+    };
+  }
+
   public getIsReady(): boolean {
     return this.isReady;
   }
@@ -128,56 +327,103 @@ export class UciEngine {
 
   public shutdown(): void {
     this.isReady = false;
-    this.workerQueue = [];
+    this.isShutdown = true;
 
-    for (const worker of this.workers) {
-      this.terminateWorker(worker);
+    // Terminated workers never reach the final message of their running job
+    const runningJobs = [...this.runningJobs.values()];
+    this.abortAllJobs(`${this.name} has been shut down`);
+    for (const job of runningJobs) {
+      job.reject(job.abortController.signal.reason);
     }
+    this.runningJobs.clear();
+
+    const workers = this.workers;
     this.workers = [];
+    for (const worker of workers) {
+      this.terminateWorker(worker);
+    }
   }
 
   private terminateWorker(worker: EngineWorker) {
     worker.isReady = false;
     worker.uci("quit");
     worker.terminate();
-  }
 
-  public async stopAllCurrentJobs(): Promise<void> {
-    this.workerQueue = [];
-    await this.sendCommandsToEachWorker(["stop", "isready"], "readyok");
+    // Commands waiting for this worker skip it, it is no longer in the pool
+    const waiters = this.workerWaiters.get(worker) ?? [];
+    this.workerWaiters.delete(worker);
+    for (const waiter of waiters) waiter();
+  }
 
-    for (const worker of this.workers) {
-      this.releaseWorker(worker);
+  private abortAllJobs(message: string) {
+    const error = new EngineJobAbortedError(message);
+    for (const job of [...this.workerQueue, ...this.runningJobs.values()]) {
+      job.abortController.abort(error);
     }
   }
 
+  // Raw commands such as setoption, sent to every worker between two jobs
+  public async sendUciCommands(commands: string[]): Promise<void> {
+    this.throwErrorIfNotReady();
+    await this.sendCommandsToEachWorker([...commands, "isready"], "readyok");
+  }
+
+  public async stopAllCurrentJobs(): Promise<void> {
+    this.abortAllJobs(`The jobs of ${this.name} have been stopped`);
+    await this.sendCommandsToEachWorker(["isready"], "readyok");
+  }
+
   private async sendCommands(
     commands: string[],
     finalMessage: string,
-    onNewMessage?: (messages: string[]) => void
+    onNewMessage?: (messages: string[]) => void,
+    stallTimeout: number | null = WORKER_STALL_TIMEOUT,
+    signal?: AbortSignal
   ): Promise<string[]> {
-    const worker = this.acquireWorker();
-
-    if (!worker) {
-      return new Promise((resolve) => {
-        this.workerQueue.push({
-          commands,
-          finalMessage,
-          onNewMessage,
-          resolve,
-        });
-      });
-    }
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
 
-    const res = await sendCommandsToWorker(
-      worker,
-      commands,
-      finalMessage,
-      onNewMessage
-    );
+      const abortController = new AbortController();
+      signal?.addEventListener(
+        "abort",
+        () => abortController.abort(signal.reason),
+        { once: true }
+      );
 
-    this.releaseWorker(worker);
-    return res;
+      const job: WorkerJob = {
+        commands,
+        finalMessage,
+        onNewMessage,
+        stallTimeout: stallTimeout ?? undefined,
+        abortController,
+        attempts: 0,
+        resolve,
+        reject,
+      };
+
+      abortController.signal.addEventListener(
+        "abort",
+        () => {
+          const jobIndex = this.workerQueue.indexOf(job);
+          if (jobIndex === -1) return;
+
+          this.workerQueue.splice(jobIndex, 1);
+          reject(abortController.signal.reason);
+        },
+        { once: true }
+      );
+
+      const worker = this.acquireWorker();
+      if (!worker) {
+        this.workerQueue.push(job);
+        return;
+      }
+
+      this.runJob(worker, job);
+    });
   }
 
   private async sendCommandsToEachWorker(
@@ -187,28 +433,93 @@ export class UciEngine {
   ): Promise<void> {
     await Promise.all(
       this.workers.map(async (worker) => {
-        await sendCommandsToWorker(
-          worker,
-          commands,
-          finalMessage,
-          onNewMessage
-        );
+        await this.waitForWorker(worker);
+        if (!this.workers.includes(worker)) return;
+
+        try {
+          await sendCommandsToWorker(
+            worker,
+            commands,
+            finalMessage,
+            onNewMessage
+          );
+        } catch (error) {
+          await this.recoverFromWorkerFailure(worker, error);
+          return;
+        }
         this.releaseWorker(worker);
       })
     );
   }
 
+  // Resolves once the worker is reserved, after the job it is running if any
+  private waitForWorker(worker: EngineWorker): Promise<void> {
+    if (worker.isReady) {
+      worker.isReady = false;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const waiters = this.workerWaiters.get(worker) ?? [];
+      this.workerWaiters.set(worker, [...waiters, resolve]);
+    });
+  }
+
   private async addNewWorker() {
     const worker = getEngineWorker(this.enginePath);
 
-    await sendCommandsToWorker(worker, ["uci"], "uciok");
-    await sendCommandsToWorker(
-      worker,
-      [`setoption name MultiPV value ${this.multiPv}`, "isready"],
-      "readyok"
-    );
-    await this.customEngineInit?.(worker);
-    await sendCommandsToWorker(worker, ["ucinewgame", "isready"], "readyok");
+    try {
+      const uciMessages = await sendCommandsToWorker(worker, ["uci"], "uciok");
+      if (!this.uciOptions.length) {
+        this.uciOptions = parseUciOptions(uciMessages);
+      }
+      await sendCommandsToWorker(
+        worker,
+        [
+          `setoption name MultiPV value ${this.multiPv}`,
+          ...(this.uciOptions.some(({ name }) => name === "UCI_ShowWDL")
+            ? ["setoption name UCI_ShowWDL value true"]
+            : []),
+          "isready",
+        ],
+        "readyok"
+      );
+      await this.customEngineInit?.(worker);
+      if (this.elo) {
+        await sendCommandsToWorker(
+          worker,
+          [
+            "setoption name UCI_LimitStrength value true",
+            `setoption name UCI_Elo value ${this.elo}`,
+            "isready",
+          ],
+          "readyok"
+        );
+      }
+      const threadsOptionValues = getThreadsOptionValues(
+        this.threadsNb,
+        this.uciOptions,
+        this.uciOptionValues
+      );
+      if (this.threadsNb > 1 && Object.keys(threadsOptionValues).length) {
+        await sendCommandsToWorker(
+          worker,
+          [...getSetOptionCommands(threadsOptionValues), "isready"],
+          "readyok"
+        );
+      }
+      if (Object.keys(this.uciOptionValues).length) {
+        await sendCommandsToWorker(
+          worker,
+          [...getSetOptionCommands(this.uciOptionValues), "isready"],
+          "readyok"
+        );
+      }
+      await sendCommandsToWorker(worker, ["ucinewgame", "isready"], "readyok");
+    } catch (error) {
+      this.terminateWorker(worker);
+      throw error;
+    }
 
     this.workers.push(worker);
     this.releaseWorker(worker);
@@ -240,6 +551,43 @@ export class UciEngine {
     );
   }
 
+  // Returns the overall nodes per second reached with the given number of workers
+  public async benchmark(
+    fens: string[],
+    movetime: number,
+    workersNb = 1
+  ): Promise<number> {
+    this.throwErrorIfNotReady();
+    this.isReady = false;
+
+    try {
+      await this.setThreadsNb(1);
+      await this.setWorkersNb(workersNb);
+
+      const startTime = performance.now();
+      const results = await Promise.all(
+        fens.map((fen) =>
+          this.sendCommands(
+            [`position fen ${fen}`, `go movetime ${movetime}`],
+            "bestmove"
+          )
+        )
+      );
+      const elapsedTime = performance.now() - startTime;
+
+      const nodes = results.reduce(
+        (acc, res, i) =>
+          acc + (parseEvaluationResults(res, fens[i]).nodes ?? 0),
+        0
+      );
+
+      return Math.round((nodes * 1000) / elapsedTime);
+    } finally {
+      if (this.workers.length > 1) await this.setWorkersNb(1);
+      this.isReady = true;
+    }
+  }
+
   public async evaluateGame({
     fens,
     uciMoves,
@@ -247,96 +595,232 @@ export class UciEngine {
     multiPv = this.multiPv,
     setEvaluationProgress,
     playersRatings,
+    timeControl,
+    classificationProfile = getClassificationProfile(playersRatings),
     workersNb = 1,
+    movetime,
+    nodes,
+    totalTime,
+    adaptiveDepth = false,
+    initialPositions,
+    onPositionEval,
+    previousGameEval,
+    signal,
   }: EvaluateGameParams): Promise<GameEval> {
     this.throwErrorIfNotReady();
     this.isReady = false;
     setEvaluationProgress?.(1);
 
+    // An infinite search never ends by itself, its worker must be freed first
+    await this.stopAllCurrentJobs();
     await this.setMultiPv(multiPv);
+    await this.setThreadsNb(1);
     await this.sendCommandsToEachWorker(["ucinewgame", "isready"], "readyok");
-    this.setWorkersNb(workersNb);
 
     const positions: PositionEval[] = new Array(fens.length);
-    let completed = 0;
+    const indexesToEvaluate: number[] = [];
+
+    try {
+      // Only the positions without a good enough evaluation are searched again
+      await Promise.all(
+        fens.map(async (fen, i) => {
+          const positionEval =
+            initialPositions?.[i] ??
+            getGameOverPositionEval(fen) ??
+            (await this.getReusablePositionEval(
+              fen,
+              previousGameEval?.settings.engine === this.name &&
+                previousGameEval.positions.length === fens.length
+                ? previousGameEval.positions[i]
+                : undefined,
+              depth,
+              multiPv
+            ));
+
+          if (positionEval) positions[i] = positionEval;
+          else indexesToEvaluate.push(i);
+        })
+      );
+      indexesToEvaluate.sort((a, b) => a - b);
+
+      // Extra workers are only worth starting when some positions are searched
+      if (indexesToEvaluate.length) await this.setWorkersNb(workersNb);
+
+      const secondPassMaxPositionsNb = adaptiveDepth
+        ? Math.ceil(fens.length * SECOND_PASS_MAX_POSITIONS_RATIO)
+        : 0;
+
+      const positionMovetime = getPositionMovetime({
+        movetime,
+        totalTime:
+          totalTime && adaptiveDepth
+            ? totalTime * (1 - SECOND_PASS_TIME_RATIO)
+            : totalTime,
+        positionsNb: indexesToEvaluate.length,
+        workersNb,
+      });
 
-    const updateEval = (index: number, positionEval: PositionEval) => {
-      completed++;
-      positions[index] = positionEval;
-      const progress = completed / fens.length;
-      setEvaluationProgress?.(99 - Math.exp(-4 * progress) * 99);
-    };
+      let completed = 0;
+
+      const updateEval = (index: number, positionEval: PositionEval) => {
+        completed++;
+        positions[index] = positionEval;
+        const progress =
+          completed / (indexesToEvaluate.length + secondPassMaxPositionsNb);
+        setEvaluationProgress?.(99 - Math.exp(-4 * progress) * 99);
+      };
+
+      const firstPassStartTime = performance.now();
+      await Promise.all(
+        indexesToEvaluate.map(async (i) => {
+          // These positions already missed the cache when looking for reusable evals
+          const result = await this.evaluatePosition(
+            fens[i],
+            depth,
+            workersNb,
+            {
+              movetime: positionMovetime,
+              nodes,
+              signal,
+            },
+            false
+          );
+          updateEval(i, result);
+          onPositionEval?.(i, result);
+        })
+      );
+      const firstPassTime = performance.now() - firstPassStartTime;
 
-    await Promise.all(
-      fens.map(async (fen, i) => {
-        const whoIsCheckmated = getWhoIsCheckmated(fen);
-        if (whoIsCheckmated) {
-          updateEval(i, {
-            lines: [
-              {
-                pv: [],
-                depth: 0,
-                multiPv: 1,
-                mate: whoIsCheckmated === "w" ? -1 : 1,
-              },
-            ],
-          });
-          return;
-        }
+      // Without any limit, the second pass gets its share of the measured first pass time
+      const isDepthOnly = !movetime && !nodes && !totalTime;
+      const secondPassTotalTime = isDepthOnly
+        ? (firstPassTime * SECOND_PASS_TIME_RATIO) /
+          (1 - SECOND_PASS_TIME_RATIO)
+        : totalTime && totalTime * SECOND_PASS_TIME_RATIO;
 
-        const isStalemate = getIsStalemate(fen);
-        if (isStalemate) {
-          updateEval(i, {
-            lines: [
-              {
-                pv: [],
-                depth: 0,
-                multiPv: 1,
-                cp: 0,
-              },
-            ],
-          });
-          return;
-        }
+      // A depth only second pass cannot be budgeted if no position was searched
+      if (
+        secondPassMaxPositionsNb &&
+        (!isDepthOnly || indexesToEvaluate.length)
+      ) {
+        const criticalIndexes = getCriticalPositionIndexes(
+          getMovesClassification(
+            positions,
+            uciMoves,
+            fens,
+            CLASSIFICATION_PROFILES[classificationProfile]
+          ),
+          secondPassMaxPositionsNb
+        ).filter(
+          (i) =>
+            (positions[i].lines[0]?.depth ?? 0) <
+            depth + SECOND_PASS_EXTRA_DEPTH
+        );
 
-        const result = await this.evaluatePosition(fen, depth, workersNb);
-        updateEval(i, result);
-      })
-    );
+        const secondPassMovetime = getPositionMovetime({
+          movetime: movetime && movetime * SECOND_PASS_LIMITS_FACTOR,
+          totalTime: secondPassTotalTime,
+          positionsNb: criticalIndexes.length,
+          workersNb,
+        });
 
-    await this.setWorkersNb(1);
-    this.isReady = true;
+        await Promise.all(
+          criticalIndexes.map(async (i) => {
+            const result = await this.evaluatePosition(
+              fens[i],
+              depth + SECOND_PASS_EXTRA_DEPTH,
+              workersNb,
+              {
+                movetime: secondPassMovetime,
+                nodes: nodes && nodes * SECOND_PASS_LIMITS_FACTOR,
+                signal,
+              }
+            );
+            updateEval(i, result);
+            onPositionEval?.(i, result);
+          })
+        );
+      }
+    } finally {
+      // Shrinking the pool cannot fail, even if every worker crashed
+      if (this.workers.length > 1) await this.setWorkersNb(1);
+      this.isReady = true;
+    }
 
+    const thresholds = CLASSIFICATION_PROFILES[classificationProfile];
     const positionsWithClassification = getMovesClassification(
       positions,
       uciMoves,
-      fens
+      fens,
+      thresholds
     );
     const accuracy = computeAccuracy(positions);
+    const phases = computeGamePhasesStats(
+      positionsWithClassification,
+      getGamePhases(positionsWithClassification, fens)
+    );
+    const keyMoments = getKeyMoments(positions, thresholds);
     const estimatedElo = computeEstimatedElo(
-      positions,
+      positionsWithClassification,
       playersRatings?.white,
-      playersRatings?.black
+      playersRatings?.black,
+      timeControl
     );
 
     return {
       positions: positionsWithClassification,
       estimatedElo,
       accuracy,
+      phases,
+      keyMoments,
       settings: {
         engine: this.name,
         date: new Date().toISOString(),
         depth,
         multiPv,
+        movetime,
+        nodes,
+        totalTime,
+        adaptiveDepth,
+        classificationProfile,
       },
     };
   }
 
+  private async getReusablePositionEval(
+    fen: string,
+    previousPositionEval: PositionEval | undefined,
+    depth: number,
+    multiPv: number
+  ): Promise<PositionEval | undefined> {
+    if (
+      previousPositionEval &&
+      isPositionEvalSufficient(previousPositionEval, fen, depth, multiPv)
+    ) {
+      return {
+        bestMove: previousPositionEval.bestMove,
+        lines: previousPositionEval.lines.slice(0, multiPv),
+      };
+    }
+
+    return getCachedEval(fen, this.name, { depth, multiPv });
+  }
+
   private async evaluatePosition(
     fen: string,
     depth = 16,
-    workersNb: number
+    workersNb: number,
+    { signal, ...limits }: JobLimits = {},
+    checkCache = true
   ): Promise<PositionEval> {
+    if (checkCache) {
+      const cachedEval = await getCachedEval(fen, this.name, {
+        depth,
+        multiPv: this.multiPv,
+      });
+      if (cachedEval) return cachedEval;
+    }
+
     if (workersNb < 2) {
       const lichessEval = await getLichessEval(fen, this.multiPv);
       if (
@@ -348,35 +832,61 @@ export class UciEngine {
     }
 
     const results = await this.sendCommands(
-      [`position fen ${fen}`, `go depth ${depth}`],
-      "bestmove"
+      [`position fen ${fen}`, getGoCommand(depth, limits)],
+      "bestmove",
+      undefined,
+      WORKER_STALL_TIMEOUT,
+      signal
     );
 
-    return parseEvaluationResults(results, fen);
+    const positionEval = parseEvaluationResults(results, fen);
+    setCachedEval(fen, this.name, positionEval);
+
+    return positionEval;
   }
 
   public async evaluatePositionWithUpdate({
     fen,
     depth = 16,
     multiPv = this.multiPv,
+    movetime,
+    nodes,
+    infinite = false,
+    threadsNb,
+    checkLichessEval = true,
+    signal,
     setPartialEval,
   }: EvaluatePositionWithUpdateParams): Promise<PositionEval> {
     this.throwErrorIfNotReady();
 
-    const lichessEvalPromise = getLichessEval(fen, multiPv);
+    const lichessEvalPromise =
+      infinite || !checkLichessEval ? undefined : getLichessEval(fen, multiPv);
 
-    await this.stopAllCurrentJobs();
+    // Callers with their own signal only cancel their own jobs, option changes
+    // then wait for the jobs running on each worker
+    if (!signal) await this.stopAllCurrentJobs();
     await this.setMultiPv(multiPv);
+    if (threadsNb) await this.setThreadsNb(threadsNb);
 
+    let lastPartialEvalTime = 0;
     const onNewMessage = (messages: string[]) => {
-      if (!setPartialEval) return;
+      if (!setPartialEval || signal?.aborted) return;
+
+      // An infinite search keeps growing its messages, so throttle the parsing
+      if (infinite) {
+        const now = Date.now();
+        if (now - lastPartialEvalTime < INFINITE_PARTIAL_EVAL_INTERVAL) return;
+        lastPartialEvalTime = now;
+      }
+
       const parsedResults = parseEvaluationResults(messages, fen);
       setPartialEval(parsedResults);
     };
 
-
     const lichessEval = await lichessEvalPromise;
+    if (signal?.aborted) throw signal.reason;
     if (
+      lichessEval &&
       lichessEval.lines.length >= multiPv &&
       lichessEval.lines[0].depth >= depth
     ) {
@@ -385,28 +895,66 @@ export class UciEngine {
     }
 
     const results = await this.sendCommands(
-      [`position fen ${fen}`, `go depth ${depth}`],
+      [
+        `position fen ${fen}`,
+        infinite ? "go infinite" : getGoCommand(depth, { movetime, nodes }),
+      ],
       "bestmove",
-      onNewMessage
+      onNewMessage,
+      // An infinite search only ends when stopped, a silent worker is not stalled
+      infinite ? null : WORKER_STALL_TIMEOUT,
+      signal
     );
 
     return parseEvaluationResults(results, fen);
   }
 
+  // Evaluates each move on its own, whatever its rank among the engine lines
+  public async evaluateCandidateMoves(
+    fen: string,
+    moves: string[],
+    depth = 16,
+    { signal, ...limits }: JobLimits = {}
+  ): Promise<LineEval[]> {
+    this.throwErrorIfNotReady();
+
+    return Promise.all(
+      moves.map(async (move) => {
+        const results = await this.sendCommands(
+          [`position fen ${fen}`, getGoCommand(depth, limits, [move])],
+          "bestmove",
+          undefined,
+          WORKER_STALL_TIMEOUT,
+          signal
+        );
+
+        const line = parseEvaluationResults(results, fen).lines[0];
+        if (!line) {
+          throw new Error(`No evaluation found for candidate move ${move}`);
+        }
+
+        return line;
+      })
+    );
+  }
+
   public async getEngineNextMove(
     fen: string,
-    elo: number,
-    depth = 16
+    elo: number | undefined,
+    depth = 16,
+    { signal, ...limits }: JobLimits = {}
   ): Promise<string | undefined> {
     this.throwErrorIfNotReady();
 
-    await this.stopAllCurrentJobs();
+    if (!signal) await this.stopAllCurrentJobs();
     await this.setElo(elo);
 
-
     const results = await this.sendCommands(
-      [`position fen ${fen}`, `go depth ${depth}`],
-      "bestmove"
+      [`position fen ${fen}`, getGoCommand(depth, limits)],
+      "bestmove",
+      undefined,
+      WORKER_STALL_TIMEOUT,
+      signal
     );
 
     const moveResult = results.find((result) => result.startsWith("bestmove"));
@@ -418,3 +966,72 @@ export class UciEngine {
     return move === "(none)" ? undefined : move;
   }
 }
+
+const getSetOptionCommands = (values: UciOptionValues): string[] =>
+  Object.entries(values).map(
+    ([name, value]) => `setoption name ${name} value ${value}`
+  );
+
+const getGameOverPositionEval = (fen: string): PositionEval | undefined => {
+  const whoIsCheckmated = getWhoIsCheckmated(fen);
+  if (whoIsCheckmated) {
+    return {
+      lines: [
+        {
+          pv: [],
+          depth: 0,
+          multiPv: 1,
+          mate: whoIsCheckmated === "w" ? -1 : 1,
+        },
+      ],
+    };
+  }
+
+  if (getIsStalemate(fen)) {
+    return {
+      lines: [
+        {
+          pv: [],
+          depth: 0,
+          multiPv: 1,
+          cp: 0,
+        },
+      ],
+    };
+  }
+
+  return undefined;
+};
+
+// Positions with few legal moves cannot have as many lines as requested
+const isPositionEvalSufficient = (
+  positionEval: PositionEval,
+  fen: string,
+  depth: number,
+  multiPv: number
+): boolean =>
+  (positionEval.lines[0]?.depth ?? 0) >= depth &&
+  positionEval.lines.length >= Math.min(multiPv, getLegalMovesNb(fen));
+
+// Values set by the user in the engine settings are never overridden
+const getThreadsOptionValues = (
+  threadsNb: number,
+  uciOptions: UciOption[],
+  userValues: UciOptionValues
+): UciOptionValues => {
+  const values: UciOptionValues = {};
+  if (userValues.Threads === undefined) values.Threads = threadsNb;
+
+  const hashOption = uciOptions.find(({ name }) => name === "Hash");
+  if (hashOption?.type === "spin" && userValues.Hash === undefined) {
+    values.Hash =
+      threadsNb > 1
+        ? Math.min(
+            Math.max(threadsNb * HASH_SIZE_PER_THREAD, hashOption.min),
+            hashOption.max
+          )
+        : hashOption.default;
+  }
+
+  return values;
+};
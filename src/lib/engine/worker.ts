@@ -1,7 +1,13 @@
 import { EngineWorker } from "@/types/engine";
 import { isIosDevice, isMobileDevice } from "./shared";
+import { EngineWorkerError } from "./errors";
+
+export const isRemoteEnginePath = (enginePath: string): boolean =>
+  /^wss?:\/\//.test(enginePath);
 
 export const getEngineWorker = (enginePath: string): EngineWorker => {
+  if (isRemoteEnginePath(enginePath)) return getRemoteEngineWorker(enginePath);
+
   console.log(`Creating worker from ${enginePath}`);
 
   // FIXED: Ensure the path is correct for public folder structure
@@ -21,6 +27,7 @@ export const getEngineWorker = (enginePath: string): EngineWorker => {
       isReady: false,
       uci: (command: string) => worker.postMessage(command),
       listen: () => null,
+      onError: () => null,
       terminate: () => worker.terminate(),
     };
 
@@ -32,6 +39,7 @@ export const getEngineWorker = (enginePath: string): EngineWorker => {
 
     worker.onerror = (error) => {
       console.error(`❌ Worker error for ${correctedPath}:`, error);
+      engineWorker.onError(error);
     };
 
     return engineWorker;
@@ -41,23 +49,110 @@ export const getEngineWorker = (enginePath: string): EngineWorker => {
   }
 };
 
+// Talks to a native engine through the UCI bridge, see tools/uciBridge.mjs
+const getRemoteEngineWorker = (url: string): EngineWorker => {
+  const socket = new WebSocket(url);
+  // Commands sent before the connection is open are delivered once it is
+  const pendingCommands: string[] = [];
+  let isClosed = false;
+
+  const engineWorker: EngineWorker = {
+    isReady: false,
+    uci: (command: string) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(command);
+      } else {
+        pendingCommands.push(command);
+      }
+    },
+    listen: () => null,
+    onError: () => null,
+    terminate: () => {
+      isClosed = true;
+      socket.close();
+    },
+  };
+
+  socket.onopen = () => {
+    for (const command of pendingCommands.splice(0)) {
+      socket.send(command);
+    }
+  };
+
+  socket.onmessage = (event) => {
+    for (const line of String(event.data).split("\n")) {
+      if (line.trim()) engineWorker.listen(line.trim());
+    }
+  };
+
+  socket.onclose = (event) => {
+    if (isClosed) return;
+    isClosed = true;
+    engineWorker.onError(
+      new Error(
+        `Remote engine connection to ${url} closed${
+          event.reason ? `: ${event.reason}` : ""
+        }`
+      )
+    );
+  };
+
+  return engineWorker;
+};
+
 export const sendCommandsToWorker = (
   worker: EngineWorker,
   commands: string[],
   finalMessage: string,
-  onNewMessage?: (messages: string[]) => void
+  onNewMessage?: (messages: string[]) => void,
+  stallTimeout?: number
 ): Promise<string[]> => {
-  return new Promise((resolve) => {
+  return new Promise((resolve, reject) => {
     const messages: string[] = [];
+    let watchdog: ReturnType<typeof setTimeout> | undefined = undefined;
+
+    // The worker is considered stalled if it stays silent for too long
+    const resetWatchdog = () => {
+      if (!stallTimeout) return;
+      clearTimeout(watchdog);
+      watchdog = setTimeout(() => {
+        // Another job took over this worker, this one will never end
+        if (worker.listen !== listen) return;
+        reject(
+          new EngineWorkerError(
+            "stall",
+            `Engine worker sent no message for ${stallTimeout}ms`
+          )
+        );
+      }, stallTimeout);
+    };
 
-    worker.listen = (data) => {
+    const listen = (data: string) => {
+      resetWatchdog();
       messages.push(data);
       onNewMessage?.(messages);
 
       if (data.startsWith(finalMessage)) {
+        clearTimeout(watchdog);
         resolve(messages);
       }
     };
+    worker.listen = listen;
+
+    worker.onError = (error) => {
+      clearTimeout(watchdog);
+      reject(
+        new EngineWorkerError(
+          "crash",
+          (error instanceof ErrorEvent || error instanceof Error) &&
+          error.message
+            ? error.message
+            : "Engine worker crashed"
+        )
+      );
+    };
+
+    resetWatchdog();
 
     for (const command of commands) {
       worker.uci(command);
@@ -1,8 +1,17 @@
-// src/lib/stockfishClient.ts
-// Tembo — Stockfish Integration
-// A robust, production-ready Stockfish client for your web app
+// Compatibility facade for code written against the former standalone client,
+// everything runs through UciEngine and its queue, recovery and parsing
+import { EngineName } from "@/types/enums";
+import { LineEval } from "@/types/eval";
+import { createEngine } from "./engine/shared";
+import { UciEngine } from "./engine/uciEngine";
 
-export type Variation = { pv: string[]; score?: { type: string; value: number } };
+// Without a depth limit, a movetime search runs until its time is up
+const MOVETIME_SEARCH_DEPTH = 99;
+
+export type Variation = {
+  pv: string[];
+  score?: { type: string; value: number };
+};
 
 export interface StockfishAnalysis {
   variations: Variation[];
@@ -10,240 +19,182 @@ export interface StockfishAnalysis {
   timeSpent: number;
 }
 
-export function createStockfishWorker(path = "/play/engines/stockfish-11.js") {
-  console.log(`🔧 Creating Stockfish worker from: ${path}`);
-  
-  let worker: Worker | null = null;
-
-  try {
-    worker = new Worker(path);
-    console.log('✅ Stockfish worker created successfully');
-  } catch (err) {
-    console.error("❌ Failed to create Stockfish worker:", err);
-    throw new Error(`Stockfish engine not found at ${path}. Please make sure the file exists.`);
-  }
-
-  function send(cmd: string) {
-    if (!worker) {
-      console.warn('⚠️ Worker not initialized, cannot send command:', cmd);
-      return;
+export function createStockfishClient(
+  engineName: EngineName = EngineName.Stockfish11,
+  enginePath?: string
+) {
+  let enginePromise: Promise<UciEngine> | null = enginePath
+    ? UciEngine.create(engineName, enginePath)
+    : createEngine(engineName);
+  // Calls run one after the other, so one caller's options never change another's search
+  let lastCall: Promise<unknown> = Promise.resolve();
+  const pendingCalls = new Set<AbortController>();
+
+  const getEngine = (): Promise<UciEngine> => {
+    if (!enginePromise) {
+      throw new Error("Stockfish client has been destroyed");
     }
-    console.log(`📤 Sending to Stockfish: ${cmd}`);
-    worker.postMessage(cmd);
-  }
+    return enginePromise;
+  };
 
-  function parseInfoLine(line: string) {
-    const mpMatch = line.match(/multipv (\d+)/);
-    const pvMatch = line.match(/ pv (.+)$/);
-    const scoreMatch = line.match(/score (cp|mate) (-?\d+)/);
-    const depthMatch = line.match(/depth (\d+)/);
-    
-    const multipv = mpMatch ? Number(mpMatch[1]) : null;
-    const pv = pvMatch ? pvMatch[1].trim().split(/\s+/) : null;
-    const score = scoreMatch ? { type: scoreMatch[1], value: Number(scoreMatch[2]) } : null;
-    const depth = depthMatch ? Number(depthMatch[1]) : null;
-    
-    return { multipv, pv, score, depth };
-  }
+  const runInOrder = <T>(
+    call: (engine: UciEngine, signal: AbortSignal) => Promise<T>
+  ): Promise<T> => {
+    // Each call has its own signal, the engine then only cancels its own jobs
+    const abortController = new AbortController();
+    const { signal } = abortController;
+    pendingCalls.add(abortController);
+
+    const result = lastCall
+      .catch(() => null)
+      .then(async () => {
+        if (signal.aborted) throw signal.reason;
+        return call(await getEngine(), signal);
+      })
+      .finally(() => pendingCalls.delete(abortController));
+    lastCall = result;
+
+    return new Promise<T>((resolve, reject) => {
+      signal.addEventListener("abort", () => reject(signal.reason), {
+        once: true,
+      });
+      result.then(resolve, reject);
+    });
+  };
 
   async function analyzeFen(
     fen: string,
     opts: { multiPV?: number; depth?: number; movetime?: number } = {}
   ): Promise<StockfishAnalysis> {
     const { multiPV = 3, depth = 18, movetime = 5000 } = opts;
-
-    console.log(`🎯 Starting analysis for FEN: ${fen.substring(0, 50)}...`);
-
-    return new Promise((resolve, reject) => {
-      if (!worker) {
-        const error = "Stockfish worker not initialized";
-        console.error(`❌ ${error}`);
-        reject(new Error(error));
-        return;
-      }
-
-      const results: (Variation | null)[] = [];
-      let analysisDepth = 0;
-      const startTime = Date.now();
-
-      const timeout = setTimeout(() => {
-        console.log('⏰ Analysis timeout reached');
-        worker?.removeEventListener("message", onMsg);
-        const filtered = results.filter(Boolean) as Variation[];
-        resolve({
-          variations: filtered.length ? filtered : [{ pv: [], score: { type: 'cp', value: 0 } }],
-          depth: analysisDepth,
-          timeSpent: Date.now() - startTime
-        });
-      }, movetime + 1000);
-
-      const onMsg = (e: MessageEvent) => {
-        const data = typeof e.data === "string" ? e.data : "";
-        if (!data) return;
-
-        const lines = data.split("\n").map((l) => l.trim()).filter(Boolean);
-        
-        for (const line of lines) {
-          console.log(`📨 Stockfish: ${line}`);
-          
-          if (line.startsWith("info")) {
-            const parsed = parseInfoLine(line);
-            
-            if (parsed.depth) {
-              analysisDepth = Math.max(analysisDepth, parsed.depth);
-            }
-            
-            if (parsed.multipv && parsed.pv) {
-              const idx = parsed.multipv - 1;
-              results[idx] = { 
-                pv: parsed.pv, 
-                score: parsed.score || { type: 'cp', value: 0 }
-              };
-              console.log(`📊 Variation ${parsed.multipv}: ${parsed.pv.slice(0, 3).join(' ')}...`);
-            }
-          }
-          
-          if (line.startsWith("bestmove")) {
-            console.log(`✅ Analysis complete. Best move: ${line}`);
-            clearTimeout(timeout);
-            worker?.removeEventListener("message", onMsg);
-            
-            const filtered = results.filter(Boolean) as Variation[];
-            const finalResults = filtered.length ? filtered : [{ pv: [], score: { type: 'cp', value: 0 } }];
-            
-            resolve({
-              variations: finalResults,
-              depth: analysisDepth,
-              timeSpent: Date.now() - startTime
-            });
-            return;
-          }
-          
-          if (line.includes('error')) {
-            console.error(`❌ Stockfish error: ${line}`);
-            clearTimeout(timeout);
-            worker?.removeEventListener("message", onMsg);
-            reject(new Error(`Stockfish error: ${line}`));
-            return;
-          }
-        }
-      };
-
-      worker.addEventListener("message", onMsg);
-      worker.addEventListener("error", (error) => {
-        console.error('❌ Worker error:', error);
-        clearTimeout(timeout);
-        reject(error);
-      });
-
-      // Initialize and start analysis
-      console.log('🔧 Initializing Stockfish analysis...');
-      send("uci");
-      send("isready");
-      send(`setoption name MultiPV value ${multiPV}`);
-      send(`setoption name Hash value 256`);
-      send(`position fen ${fen}`);
-      
-      if (movetime) {
-        send(`go movetime ${movetime}`);
-        console.log(`⏱️  Analysis running for ${movetime}ms...`);
-      } else {
-        send(`go depth ${depth}`);
-        console.log(`⏱️  Analysis running to depth ${depth}...`);
-      }
-    });
+    const startTime = Date.now();
+
+    const positionEval = await runInOrder((engine, signal) =>
+      engine.evaluatePositionWithUpdate({
+        fen,
+        multiPv: multiPV,
+        depth: movetime ? MOVETIME_SEARCH_DEPTH : depth,
+        movetime: movetime || undefined,
+        checkLichessEval: false,
+        signal,
+      })
+    );
+
+    // Scores used to be reported from the side to move's point of view
+    const isWhiteToPlay = fen.split(" ")[1] === "w";
+    const variations = positionEval.lines.map((line) =>
+      getVariation(line, isWhiteToPlay)
+    );
+
+    return {
+      variations: variations.length
+        ? variations
+        : [{ pv: [], score: { type: "cp", value: 0 } }],
+      depth: positionEval.lines[0]?.depth ?? 0,
+      timeSpent: Date.now() - startTime,
+    };
   }
 
   async function getBestMove(
     fen: string,
     opts: { movetime?: number; depth?: number } = {}
   ): Promise<string> {
-    console.log(`🤖 Getting best move for position`);
-    
-    const analysis = await analyzeFen(fen, { ...opts, multiPV: 1 });
-    
-    if (analysis.variations.length > 0 && analysis.variations[0].pv.length > 0) {
-      const bestMove = analysis.variations[0].pv[0];
-      console.log(`✅ Best move found: ${bestMove}`);
-      return bestMove;
-    }
-    
-    console.warn('⚠️ No best move found, returning empty string');
-    return '';
+    const { depth = 18, movetime = 5000 } = opts;
+
+    const bestMove = await runInOrder((engine, signal) =>
+      engine.getEngineNextMove(
+        fen,
+        undefined,
+        movetime ? MOVETIME_SEARCH_DEPTH : depth,
+        { movetime: movetime || undefined, signal }
+      )
+    );
+
+    return bestMove ?? "";
   }
 
-  function destroy() {
-    try {
-      if (worker) {
-        console.log('🧹 Terminating Stockfish worker');
-        worker.terminate();
-        worker = null;
-      }
-    } catch (err) {
-      console.warn("Failed to terminate Stockfish worker:", err);
-    }
+  function send(command: string) {
+    runInOrder((engine) => engine.sendUciCommands([command])).catch((error) =>
+      console.warn(`Failed to send ${command} to Stockfish:`, error)
+    );
   }
 
-  // Test function to verify engine works
   async function testEngine(): Promise<boolean> {
     try {
-      console.log('🧪 Testing Stockfish engine...');
-      send("uci");
-      send("isready");
-      
-      return new Promise((resolve) => {
-        const timeout = setTimeout(() => {
-          console.log('❌ Engine test timeout');
-          resolve(false);
-        }, 3000);
-
-        const handler = (e: MessageEvent) => {
-          const data = e.data;
-          console.log(`🧪 Engine test response: ${data}`);
-          
-          if (data === 'readyok') {
-            clearTimeout(timeout);
-            worker?.removeEventListener('message', handler);
-            console.log('✅ Engine test passed');
-            resolve(true);
-          }
-        };
-
-        worker?.addEventListener('message', handler);
-      });
-    } catch (error) {
-      console.error('❌ Engine test failed:', error);
+      const engine = await getEngine();
+      return engine.getIsReady();
+    } catch {
       return false;
     }
   }
 
-  return { 
-    analyzeFen, 
-    getBestMove, 
-    send, 
+  function destroy() {
+    for (const abortController of pendingCalls) {
+      abortController.abort(new Error("Stockfish client has been destroyed"));
+    }
+    enginePromise?.then((engine) => engine.shutdown()).catch(() => null);
+    enginePromise = null;
+  }
+
+  return {
+    analyzeFen,
+    getBestMove,
+    send,
     destroy,
-    testEngine
+    testEngine,
   };
 }
 
-// Helper function to create different Stockfish versions
-export function createStockfishEngine(version: '11' | '16' | '17' = '17', lite: boolean = false) {
-  const basePath = '/engines';
-  
-  const paths = {
-    '11': `${basePath}/stockfish-11.js`,
-    '16': lite ? `${basePath}/stockfish-16/stockfish-16-nnue-single.js` : `${basePath}/stockfish-16/stockfish-16-single.js`,
-    '17': lite ? `${basePath}/stockfish-17/stockfish-17-lite-single.js` : `${basePath}/stockfish-17/stockfish-17-single.js`,
+export function createStockfishWorker(path = "/play/engines/stockfish-11.js") {
+  return createStockfishClient(getEngineNameFromPath(path), path);
+}
+
+// Evaluations are cached by engine, so the name must match the build behind the path
+const getEngineNameFromPath = (path: string): EngineName => {
+  const fileName = path.split("/").pop() ?? "";
+
+  if (fileName.startsWith("stockfish-17-lite")) {
+    return EngineName.Stockfish17Lite;
+  }
+  if (fileName.startsWith("stockfish-17")) return EngineName.Stockfish17;
+  if (fileName.startsWith("stockfish-16.1-lite")) {
+    return EngineName.Stockfish16_1Lite;
+  }
+  if (fileName.startsWith("stockfish-16.1")) return EngineName.Stockfish16_1;
+  if (fileName.startsWith("stockfish-nnue-16")) {
+    return EngineName.Stockfish16NNUE;
+  }
+  if (fileName.startsWith("stockfish-16")) return EngineName.Stockfish16;
+  return EngineName.Stockfish11;
+};
+
+const getVariation = (line: LineEval, isWhiteToPlay: boolean): Variation => {
+  const sign = isWhiteToPlay ? 1 : -1;
+
+  return {
+    pv: line.pv,
+    score:
+      line.mate !== undefined
+        ? { type: "mate", value: sign * line.mate }
+        : { type: "cp", value: sign * (line.cp ?? 0) },
+  };
+};
+
+export function createStockfishEngine(
+  version: "11" | "16" | "17" = "17",
+  lite: boolean = false
+) {
+  const engineNames: Record<typeof version, EngineName> = {
+    "11": EngineName.Stockfish11,
+    "16": lite ? EngineName.Stockfish16 : EngineName.Stockfish16NNUE,
+    "17": lite ? EngineName.Stockfish17Lite : EngineName.Stockfish17,
   };
 
-  const path = paths[version];
-  console.log(`🎯 Creating Stockfish ${version}${lite ? ' Lite' : ''} from: ${path}`);
-  
-  return createStockfishWorker(path);
+  return createStockfishClient(engineNames[version]);
 }
 
-// Default export for convenience
 export default {
+  createStockfishClient,
   createStockfishWorker,
   createStockfishEngine,
-};
\ No newline at end of file
+};
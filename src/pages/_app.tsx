@@ -5,10 +5,17 @@ import "@fontsource/roboto/700.css";
 import { AppProps } from "next/app";
 import Layout from "@/sections/layout";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { registerEngineAssetsWorker } from "@/lib/engine/engineAssets";
+import { logErrorToSentry } from "@/lib/sentry";
 
 const queryClient = new QueryClient();
 
 export default function MyApp({ Component, pageProps }: AppProps) {
+  useEffect(() => {
+    registerEngineAssetsWorker().catch(logErrorToSentry);
+  }, []);
+
   return (
     <QueryClientProvider client={queryClient}>
       <Layout>
@@ -18,6 +18,7 @@ import { useEffect, useState } from "react";
 import { Icon } from "@iconify/react";
 import EngineSettingsButton from "@/sections/engineSettings/engineSettingsButton";
 import GraphTab from "@/sections/analysis/panelBody/graphTab";
+import KeyMomentsTab from "@/sections/analysis/panelBody/keyMomentsTab";
 import { PageTitle } from "@/components/pageTitle";
 import { useChessActions } from "@/hooks/useChessActions";
 import { useRouter } from "next/router";
@@ -55,6 +56,7 @@ export default function GameAnalysis() {
   useEffect(() => {
     if (tab === 1 && !showMovesTab) setTab(0);
     if (tab === 2 && !gameEval) setTab(0);
+    if (tab === 3 && !gameEval?.keyMoments) setTab(0);
   }, [showMovesTab, gameEval, tab]);
 
   return (
@@ -160,6 +162,20 @@ export default function GameAnalysis() {
                 }}
                 disableFocusRipple
               />
+
+              <Tab
+                label="Key Moments"
+                id="tab3"
+                icon={<Icon icon="mdi:lightning-bolt" height={15} />}
+                iconPosition="start"
+                sx={{
+                  textTransform: "none",
+                  minHeight: 15,
+                  display: gameEval?.keyMoments ? undefined : "none",
+                  padding: "5px 0em 12px",
+                }}
+                disableFocusRipple
+              />
             </Tabs>
           </Box>
         )}
@@ -182,6 +198,12 @@ export default function GameAnalysis() {
           id="tabContent1"
         />
 
+        <KeyMomentsTab
+          role="tabpanel"
+          hidden={tab !== 3 && !isLgOrGreater}
+          id="tabContent3"
+        />
+
         {isLgOrGreater && (
           <Box width="100%">
             <Divider sx={{ marginX: "5%", marginBottom: 1.5 }} />
@@ -0,0 +1,144 @@
+import { PageTitle } from "@/components/pageTitle";
+import Slider from "@/components/slider";
+import { useGameDatabase } from "@/hooks/useGameDatabase";
+import { runEngineMatch } from "@/lib/engine/match";
+import { logErrorToSentry } from "@/lib/sentry";
+import MatchResults from "@/sections/match/matchResults";
+import MatchSideSettings from "@/sections/match/matchSideSettings";
+import {
+  isMatchRunningAtom,
+  matchFirstSideAtom,
+  matchGamesNbAtom,
+  matchOpeningFensAtom,
+  matchResultAtom,
+  matchSecondSideAtom,
+} from "@/sections/match/states";
+import { Icon } from "@iconify/react";
+import { Button, Grid2 as Grid, TextField, Typography } from "@mui/material";
+import { validateFen } from "chess.js";
+import { useAtom, useAtomValue, useSetAtom } from "jotai";
+import { useRef, useState } from "react";
+
+export default function Match() {
+  const firstSide = useAtomValue(matchFirstSideAtom);
+  const secondSide = useAtomValue(matchSecondSideAtom);
+  const [gamesNb, setGamesNb] = useAtom(matchGamesNbAtom);
+  const [openingFens, setOpeningFens] = useAtom(matchOpeningFensAtom);
+  const [isMatchRunning, setIsMatchRunning] = useAtom(isMatchRunningAtom);
+  const setMatchResult = useSetAtom(matchResultAtom);
+  const [error, setError] = useState("");
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const { addGame } = useGameDatabase();
+
+  const handleStart = async () => {
+    const fens = openingFens
+      .split("\n")
+      .map((fen) => fen.trim())
+      .filter(Boolean);
+    const invalidFen = fens.find((fen) => !validateFen(fen).ok);
+    if (invalidFen) {
+      setError(`Invalid opening FEN: ${invalidFen}`);
+      return;
+    }
+
+    setError("");
+    setMatchResult(null);
+    setIsMatchRunning(true);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    try {
+      await runEngineMatch({
+        first: firstSide,
+        second: secondSide,
+        gamesNb,
+        openingFens: fens.length ? fens : undefined,
+        signal: abortController.signal,
+        onGameEnd: (game, result) => {
+          setMatchResult(result);
+          addGame(game);
+        },
+      });
+    } catch (error) {
+      if (!abortController.signal.aborted) {
+        logErrorToSentry(error, { firstSide, secondSide, gamesNb });
+        setError("The match stopped because of an engine error.");
+      }
+    } finally {
+      setIsMatchRunning(false);
+    }
+  };
+
+  return (
+    <Grid container gap={4} justifyContent="center" alignItems="start">
+      <PageTitle title="Tembo Engine Match" />
+
+      <Typography variant="h5" width="100%" textAlign="center">
+        Engine match
+      </Typography>
+
+      <Grid container size={12} maxWidth="1000px" rowGap={4}>
+        <MatchSideSettings title="First engine" sideAtom={matchFirstSideAtom} />
+        <MatchSideSettings
+          title="Second engine"
+          sideAtom={matchSecondSideAtom}
+        />
+      </Grid>
+
+      <Grid
+        container
+        justifyContent="center"
+        size={12}
+        maxWidth="600px"
+        rowGap={3}
+      >
+        <Slider
+          label="Number of games"
+          value={gamesNb}
+          setValue={setGamesNb}
+          min={2}
+          max={100}
+          step={2}
+        />
+
+        <TextField
+          label="Opening FENs, one per line"
+          placeholder="Starting position if empty"
+          multiline
+          minRows={2}
+          fullWidth
+          disabled={isMatchRunning}
+          value={openingFens}
+          onChange={(e) => setOpeningFens(e.target.value)}
+          helperText="Each opening is played twice, with colours reversed"
+        />
+
+        {isMatchRunning ? (
+          <Button
+            variant="outlined"
+            startIcon={<Icon icon="ri:stop-circle-line" />}
+            onClick={() => abortControllerRef.current?.abort()}
+          >
+            Stop match
+          </Button>
+        ) : (
+          <Button
+            variant="contained"
+            startIcon={<Icon icon="mdi:sword-cross" />}
+            onClick={handleStart}
+          >
+            Start match
+          </Button>
+        )}
+
+        {error && (
+          <Typography color="error" width="100%" textAlign="center">
+            {error}
+          </Typography>
+        )}
+      </Grid>
+
+      <MatchResults />
+    </Grid>
+  );
+}
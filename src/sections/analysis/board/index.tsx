@@ -4,6 +4,7 @@ import {
   boardOrientationAtom,
   currentPositionAtom,
   gameAtom,
+  positionThreatAtom,
   showBestMoveArrowAtom,
   showPlayerMoveIconAtom,
 } from "../states";
@@ -17,6 +18,7 @@ export default function BoardContainer() {
   const screenSize = useScreenSize();
   const boardOrientation = useAtomValue(boardOrientationAtom);
   const showBestMoveArrow = useAtomValue(showBestMoveArrowAtom);
+  const positionThreat = useAtomValue(positionThreatAtom);
   const { white, black } = usePlayersData(gameAtom);
 
   const boardSize = useMemo(() => {
@@ -42,6 +44,7 @@ export default function BoardContainer() {
       boardOrientation={boardOrientation ? Color.White : Color.Black}
       currentPositionAtom={currentPositionAtom}
       showBestMoveArrow={showBestMoveArrow}
+      threatMove={positionThreat?.line.pv[0]}
       showPlayerMoveIconAtom={showPlayerMoveIconAtom}
       showEvaluationBar={true}
     />
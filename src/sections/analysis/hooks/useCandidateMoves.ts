@@ -0,0 +1,69 @@
+import { UciEngine } from "@/lib/engine/uciEngine";
+import { EngineJobAbortedError } from "@/lib/engine/errors";
+import { logErrorToSentry } from "@/lib/sentry";
+import { useAtomValue, useSetAtom } from "jotai";
+import { useEffect } from "react";
+import {
+  boardAtom,
+  candidateMoveEvalsAtom,
+  candidateMovesAtom,
+  engineDepthAtom,
+  engineSearchLimitsAtom,
+  infiniteAnalysisAtom,
+} from "../states";
+
+export const useCandidateMoves = (engine: UciEngine | null) => {
+  const board = useAtomValue(boardAtom);
+  const candidateMoves = useAtomValue(candidateMovesAtom);
+  const depth = useAtomValue(engineDepthAtom);
+  const { movetime, nodes } = useAtomValue(engineSearchLimitsAtom);
+  const isInfiniteAnalysis = useAtomValue(infiniteAnalysisAtom);
+  const setCandidateMoveEvals = useSetAtom(candidateMoveEvalsAtom);
+
+  useEffect(() => {
+    setCandidateMoveEvals([]);
+
+    if (
+      !candidateMoves?.moves.length ||
+      candidateMoves.fen !== board.fen() ||
+      isInfiniteAnalysis ||
+      !engine?.getIsReady()
+    ) {
+      return;
+    }
+
+    const abortController = new AbortController();
+    const { signal } = abortController;
+
+    engine
+      .evaluateCandidateMoves(candidateMoves.fen, candidateMoves.moves, depth, {
+        movetime,
+        nodes,
+        signal,
+      })
+      .then((lines) => {
+        if (signal.aborted) return;
+        setCandidateMoveEvals(
+          lines.map((line, i) => ({ move: candidateMoves.moves[i], line }))
+        );
+      })
+      .catch((error) => {
+        if (!signal.aborted && !(error instanceof EngineJobAbortedError)) {
+          logErrorToSentry(error, { candidateMoves });
+        }
+      });
+
+    return () => {
+      abortController.abort();
+    };
+  }, [
+    board,
+    candidateMoves,
+    engine,
+    depth,
+    movetime,
+    nodes,
+    isInfiniteAnalysis,
+    setCandidateMoveEvals,
+  ]);
+};
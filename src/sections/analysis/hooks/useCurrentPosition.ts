@@ -1,19 +1,31 @@
 import {
   boardAtom,
+  classificationProfileAtom,
   currentPositionAtom,
   engineDepthAtom,
   engineMultiPvAtom,
+  engineSearchLimitsAtom,
+  engineWorkersNbAtom,
   gameAtom,
   gameEvalAtom,
+  infiniteAnalysisAtom,
   savedEvalsAtom,
 } from "@/sections/analysis/states";
 import { CurrentPosition, PositionEval } from "@/types/eval";
-import { useAtom, useAtomValue } from "jotai";
+import { useAtom, useAtomValue, useSetAtom, useStore } from "jotai";
 import { useEffect } from "react";
 import { getEvaluateGameParams } from "@/lib/chess";
 import { getMovesClassification } from "@/lib/engine/helpers/moveClassification";
+import {
+  CLASSIFICATION_PROFILES,
+  DEFAULT_CLASSIFICATION_PROFILE,
+} from "@/lib/engine/helpers/classificationProfiles";
 import { openings } from "@/data/openings";
 import { UciEngine } from "@/lib/engine/uciEngine";
+import { EngineJobAbortedError } from "@/lib/engine/errors";
+import { getCachedEval, setCachedEval } from "@/lib/engine/evalCache";
+import { logErrorToSentry } from "@/lib/sentry";
+import { isMultiThreadSupported } from "@/lib/engine/shared";
 
 export const useCurrentPosition = (engine: UciEngine | null) => {
   const [currentPosition, setCurrentPosition] = useAtom(currentPositionAtom);
@@ -22,7 +34,12 @@ export const useCurrentPosition = (engine: UciEngine | null) => {
   const board = useAtomValue(boardAtom);
   const depth = useAtomValue(engineDepthAtom);
   const multiPv = useAtomValue(engineMultiPvAtom);
-  const [savedEvals, setSavedEvals] = useAtom(savedEvalsAtom);
+  const { movetime, nodes } = useAtomValue(engineSearchLimitsAtom);
+  const store = useStore();
+  const setSavedEvals = useSetAtom(savedEvalsAtom);
+  const isInfiniteAnalysis = useAtomValue(infiniteAnalysisAtom);
+  const workersNb = useAtomValue(engineWorkersNbAtom);
+  const classificationProfile = useAtomValue(classificationProfileAtom);
 
   useEffect(() => {
     const boardHistory = board.history({ verbose: true });
@@ -72,7 +89,43 @@ export const useCurrentPosition = (engine: UciEngine | null) => {
 
     setCurrentPosition(position);
 
+    // The workers used for game analysis become threads of a single worker here
+    const threadsNb = isMultiThreadSupported() ? workersNb : 1;
+    let lastInfiniteEval: PositionEval | undefined = undefined;
+    const boardFen = board.fen();
+    const abortController = new AbortController();
+    const { signal } = abortController;
+
+    if (
+      isInfiniteAnalysis &&
+      engine?.getIsReady() &&
+      !board.isCheckmate() &&
+      !board.isStalemate()
+    ) {
+      engine
+        .evaluatePositionWithUpdate({
+          fen: boardFen,
+          multiPv,
+          infinite: true,
+          threadsNb,
+          signal,
+          setPartialEval: (positionEval) => {
+            lastInfiniteEval = positionEval;
+            setCurrentPosition({
+              ...position,
+              eval: { ...position.eval, ...positionEval },
+            });
+          },
+        })
+        .catch((error) => {
+          if (!signal.aborted && !(error instanceof EngineJobAbortedError)) {
+            logErrorToSentry(error, { fen: boardFen });
+          }
+        });
+    }
+
     if (
+      !isInfiniteAnalysis &&
       !position.eval &&
       engine?.getIsReady() &&
       engine.name &&
@@ -86,7 +139,8 @@ export const useCurrentPosition = (engine: UciEngine | null) => {
         if (!engine.getIsReady()) {
           throw new Error("Engine not ready");
         }
-        const savedEval = savedEvals[fen];
+        // Read from the store, an infinite search may have just saved a deeper eval
+        const savedEval = store.get(savedEvalsAtom)[fen];
         if (
           savedEval &&
           savedEval.engine === engine.name &&
@@ -101,10 +155,24 @@ export const useCurrentPosition = (engine: UciEngine | null) => {
           return positionEval;
         }
 
+        const cachedEval = await getCachedEval(fen, engine.name, {
+          depth,
+          multiPv,
+        });
+        if (signal.aborted) throw signal.reason;
+        if (cachedEval) {
+          setPartialEval?.(cachedEval);
+          return cachedEval;
+        }
+
         const rawPositionEval = await engine.evaluatePositionWithUpdate({
           fen,
           depth,
           multiPv,
+          movetime,
+          nodes,
+          threadsNb,
+          signal,
           setPartialEval,
         });
 
@@ -112,6 +180,7 @@ export const useCurrentPosition = (engine: UciEngine | null) => {
           ...prev,
           [fen]: { ...rawPositionEval, engine: engine.name },
         }));
+        setCachedEval(fen, engine.name, rawPositionEval);
 
         return rawPositionEval;
       };
@@ -121,7 +190,7 @@ export const useCurrentPosition = (engine: UciEngine | null) => {
           setCurrentPosition({ ...position, eval: positionEval });
         };
         const rawPositionEval = await getFenEngineEval(
-          board.fen(),
+          boardFen,
           setPartialEval
         );
 
@@ -147,10 +216,16 @@ export const useCurrentPosition = (engine: UciEngine | null) => {
           };
         });
 
+        // Label moves off the game the same way as the game analysis did
         const positionsWithMoveClassification = getMovesClassification(
           rawPositions,
           uciMoves,
-          fens
+          fens,
+          CLASSIFICATION_PROFILES[
+            gameEval?.settings.classificationProfile ??
+              classificationProfile ??
+              DEFAULT_CLASSIFICATION_PROFILE
+          ]
         );
 
         setCurrentPosition({
@@ -160,16 +235,49 @@ export const useCurrentPosition = (engine: UciEngine | null) => {
         });
       };
 
-      getPositionEval();
+      getPositionEval().catch((error) => {
+        if (!signal.aborted && !(error instanceof EngineJobAbortedError)) {
+          logErrorToSentry(error, { fen: boardFen });
+        }
+      });
     }
 
     return () => {
-      if (engine?.getIsReady()) {
-        engine?.stopAllCurrentJobs();
+      abortController.abort();
+
+      // Keep the deepest infinite result so stopping does not throw it away
+      const infiniteEval: PositionEval | undefined = lastInfiniteEval;
+      if (engine && infiniteEval?.lines.length) {
+        setCachedEval(boardFen, engine.name, infiniteEval);
+        setSavedEvals((prev) => {
+          const savedEval = prev[boardFen];
+          if (
+            savedEval?.engine === engine.name &&
+            (savedEval.lines[0]?.depth ?? 0) >= infiniteEval.lines[0].depth
+          ) {
+            return prev;
+          }
+          return {
+            ...prev,
+            [boardFen]: { ...infiniteEval, engine: engine.name },
+          };
+        });
       }
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [gameEval, board, game, engine, depth, multiPv]);
+  }, [
+    gameEval,
+    board,
+    game,
+    engine,
+    depth,
+    multiPv,
+    movetime,
+    nodes,
+    isInfiniteAnalysis,
+    workersNb,
+    classificationProfile,
+  ]);
 
   return currentPosition;
 };
@@ -0,0 +1,37 @@
+import { UciEngine } from "@/lib/engine/uciEngine";
+import { logErrorToSentry } from "@/lib/sentry";
+import { EngineName } from "@/types/enums";
+import { useAtomValue, useSetAtom } from "jotai";
+import { useEffect } from "react";
+import {
+  engineUciOptionsAtom,
+  engineUciOptionValuesAtom,
+  evaluationProgressAtom,
+} from "../states";
+
+export const useEngineUciOptions = (
+  engine: UciEngine | null,
+  engineName: EngineName
+) => {
+  const setEngineUciOptions = useSetAtom(engineUciOptionsAtom);
+  const engineUciOptionValues = useAtomValue(engineUciOptionValuesAtom);
+  const evaluationProgress = useAtomValue(evaluationProgressAtom);
+
+  const optionValues = engineUciOptionValues[engineName];
+
+  useEffect(() => {
+    if (!engine?.getIsReady()) return;
+
+    const options = engine.getUciOptions();
+    setEngineUciOptions((prev) => ({ ...prev, [engineName]: options }));
+  }, [engine, engineName, setEngineUciOptions]);
+
+  useEffect(() => {
+    // Options are sent to every worker, wait for the game analysis to be over
+    if (!engine?.getIsReady() || !optionValues || evaluationProgress) return;
+
+    engine.setUciOptions(optionValues).catch((error) => {
+      logErrorToSentry(error, { engineName, optionValues });
+    });
+  }, [engine, engineName, optionValues, evaluationProgress]);
+};
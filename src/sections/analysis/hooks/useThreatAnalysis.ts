@@ -0,0 +1,89 @@
+import { getNullMoveFen } from "@/lib/chess";
+import { getCachedEval, setCachedEval } from "@/lib/engine/evalCache";
+import { UciEngine } from "@/lib/engine/uciEngine";
+import { EngineJobAbortedError } from "@/lib/engine/errors";
+import { logErrorToSentry } from "@/lib/sentry";
+import { PositionEval } from "@/types/eval";
+import { useAtomValue, useSetAtom } from "jotai";
+import { useEffect } from "react";
+import {
+  boardAtom,
+  engineDepthAtom,
+  engineMultiPvAtom,
+  infiniteAnalysisAtom,
+  positionThreatAtom,
+  threatAnalysisAtom,
+} from "../states";
+
+export const useThreatAnalysis = (engine: UciEngine | null) => {
+  const board = useAtomValue(boardAtom);
+  const depth = useAtomValue(engineDepthAtom);
+  const multiPv = useAtomValue(engineMultiPvAtom);
+  const isThreatAnalysis = useAtomValue(threatAnalysisAtom);
+  const isInfiniteAnalysis = useAtomValue(infiniteAnalysisAtom);
+  const setPositionThreat = useSetAtom(positionThreatAtom);
+
+  useEffect(() => {
+    setPositionThreat(undefined);
+
+    const threatFen = getNullMoveFen(board.fen());
+    // An infinite search keeps the engine busy, the threat would never be searched
+    if (
+      !isThreatAnalysis ||
+      isInfiniteAnalysis ||
+      !threatFen ||
+      !engine?.getIsReady()
+    ) {
+      return;
+    }
+
+    const abortController = new AbortController();
+    const { signal } = abortController;
+
+    const setThreatEval = (positionEval: PositionEval) => {
+      const line = positionEval.lines[0];
+      if (line?.pv.length) setPositionThreat({ fen: threatFen, line });
+    };
+
+    const getThreatEval = async () => {
+      const cachedEval = await getCachedEval(threatFen, engine.name, {
+        depth,
+        multiPv,
+      });
+      if (signal.aborted) return;
+      if (cachedEval) {
+        setThreatEval(cachedEval);
+        return;
+      }
+
+      // The current MultiPV is kept, changing it would disturb the main search
+      const threatEval = await engine.evaluatePositionWithUpdate({
+        fen: threatFen,
+        depth,
+        multiPv,
+        signal,
+        setPartialEval: setThreatEval,
+      });
+      setThreatEval(threatEval);
+      setCachedEval(threatFen, engine.name, threatEval);
+    };
+
+    getThreatEval().catch((error) => {
+      if (!signal.aborted && !(error instanceof EngineJobAbortedError)) {
+        logErrorToSentry(error, { fen: threatFen });
+      }
+    });
+
+    return () => {
+      abortController.abort();
+    };
+  }, [
+    board,
+    engine,
+    depth,
+    multiPv,
+    isThreatAnalysis,
+    isInfiniteAnalysis,
+    setPositionThreat,
+  ]);
+};
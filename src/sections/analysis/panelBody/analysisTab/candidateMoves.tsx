@@ -0,0 +1,149 @@
+import { getLineEvalLabel, moveLineUciToSan, uciMoveParams } from "@/lib/chess";
+import { getLineWinPercentage } from "@/lib/engine/helpers/winPercentage";
+import { Icon } from "@iconify/react";
+import {
+  Button,
+  Grid2 as Grid,
+  List,
+  ListItem,
+  Skeleton,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { Chess } from "chess.js";
+import { useAtom, useAtomValue } from "jotai";
+import { useState } from "react";
+import {
+  boardAtom,
+  candidateMoveEvalsAtom,
+  candidateMovesAtom,
+  currentPositionAtom,
+  infiniteAnalysisAtom,
+} from "../../states";
+
+export default function CandidateMoves() {
+  const board = useAtomValue(boardAtom);
+  const position = useAtomValue(currentPositionAtom);
+  const [candidateMoves, setCandidateMoves] = useAtom(candidateMovesAtom);
+  const candidateMoveEvals = useAtomValue(candidateMoveEvalsAtom);
+  const isInfiniteAnalysis = useAtomValue(infiniteAnalysisAtom);
+  const [input, setInput] = useState("");
+  const [inputError, setInputError] = useState("");
+
+  const fen = board.fen();
+  const isCurrentPosition = candidateMoves?.fen === fen;
+
+  if (board.isGameOver()) return null;
+
+  const handleAnalyze = () => {
+    const game = new Chess(fen);
+    const moves: string[] = [];
+
+    for (const san of input.split(/[\s,]+/).filter(Boolean)) {
+      try {
+        const move = game.move(san);
+        moves.push(move.from + move.to + (move.promotion ?? ""));
+        game.undo();
+      } catch {
+        setInputError(`${san} is not a legal move here`);
+        return;
+      }
+    }
+
+    setInputError("");
+    setCandidateMoves(moves.length ? { fen, moves } : undefined);
+  };
+
+  const bestLine = position.eval?.lines[0];
+  const isWhiteToPlay = board.turn() === "w";
+  const bestWinPercentage = bestLine
+    ? getLineWinPercentage(bestLine)
+    : undefined;
+
+  const getWinPercentageDrop = (winPercentage: number): number | undefined => {
+    if (bestWinPercentage === undefined) return undefined;
+    const drop = isWhiteToPlay
+      ? bestWinPercentage - winPercentage
+      : winPercentage - bestWinPercentage;
+    return Math.max(0, drop);
+  };
+
+  return (
+    <Grid container justifyContent="center" size={12} rowGap={1}>
+      <Grid container justifyContent="center" size={12} gap={1}>
+        <TextField
+          size="small"
+          label="Candidate moves"
+          placeholder="Nxe5 d4"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleAnalyze();
+          }}
+          error={!!inputError}
+          helperText={
+            inputError ||
+            (isInfiniteAnalysis
+              ? "Stop the infinite analysis to compare candidates"
+              : undefined)
+          }
+          sx={{ width: "14rem" }}
+        />
+        <Button
+          variant="outlined"
+          startIcon={<Icon icon="mdi:scale-balance" />}
+          onClick={handleAnalyze}
+          disabled={isInfiniteAnalysis}
+          sx={{ height: "2.5rem" }}
+        >
+          Compare
+        </Button>
+      </Grid>
+
+      {isCurrentPosition && (
+        <List dense sx={{ width: "95%", padding: 0 }}>
+          {candidateMoves.moves.map((move) => {
+            const candidateEval = candidateMoveEvals.find(
+              (candidateMoveEval) => candidateMoveEval.move === move
+            );
+            const san = new Chess(fen).move(uciMoveParams(move)).san;
+
+            if (!candidateEval) {
+              return (
+                <ListItem key={move} disablePadding>
+                  <Typography fontSize="0.9rem" marginRight={1}>
+                    {san}
+                  </Typography>
+                  <Skeleton variant="rounded" animation="wave" width="15em" />
+                </ListItem>
+              );
+            }
+
+            const { line } = candidateEval;
+            // The first move is the candidate itself, already shown
+            const sanLine = line.pv
+              .slice(0, 6)
+              .map(moveLineUciToSan(fen))
+              .slice(1)
+              .join(" ");
+            const winPercentageDrop = getWinPercentageDrop(
+              getLineWinPercentage(line)
+            );
+
+            return (
+              <ListItem key={move} disablePadding>
+                <Typography fontSize="0.9rem" noWrap>
+                  <b>{san}</b> {getLineEvalLabel(line)}
+                  {winPercentageDrop !== undefined &&
+                    ` (-${winPercentageDrop.toFixed(1)}% win chances)`}
+                  {" · "}
+                  {sanLine}
+                </Typography>
+              </ListItem>
+            );
+          })}
+        </List>
+      )}
+    </Grid>
+  );
+}
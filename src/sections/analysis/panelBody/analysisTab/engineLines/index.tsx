@@ -1,9 +1,17 @@
-import { Grid2 as Grid, Grid2Props as GridProps, List } from "@mui/material";
+import {
+  Grid2 as Grid,
+  Grid2Props as GridProps,
+  List,
+  Typography,
+} from "@mui/material";
 import LineEvaluation from "./lineEvaluation";
+import SearchStats from "./searchStats";
+import ThreatLine from "./threatLine";
 import {
   boardAtom,
   currentPositionAtom,
   engineMultiPvAtom,
+  infiniteAnalysisAtom,
 } from "../../../states";
 import { useAtomValue } from "jotai";
 import { LineEval } from "@/types/eval";
@@ -12,6 +20,7 @@ export default function EngineLines(props: GridProps) {
   const board = useAtomValue(boardAtom);
   const linesNumber = useAtomValue(engineMultiPvAtom);
   const position = useAtomValue(currentPositionAtom);
+  const isInfiniteAnalysis = useAtomValue(infiniteAnalysisAtom);
 
   const linesSkeleton: LineEval[] = Array.from({ length: linesNumber }).map(
     (_, i) => ({ pv: [`${i}`], depth: 0, multiPv: i + 1 })
@@ -29,7 +38,18 @@ export default function EngineLines(props: GridProps) {
         {engineLines.map((line) => (
           <LineEvaluation key={line.multiPv} line={line} />
         ))}
+        <ThreatLine />
       </List>
+
+      {!!position?.eval?.lines?.length && (
+        <SearchStats positionEval={position.eval} />
+      )}
+
+      {isInfiniteAnalysis && (
+        <Typography fontSize="0.8rem" color="text.secondary" width="95%">
+          Infinite analysis running, depth {engineLines[0].depth}
+        </Typography>
+      )}
     </Grid>
   );
 }
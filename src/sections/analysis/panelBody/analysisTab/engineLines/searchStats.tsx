@@ -0,0 +1,82 @@
+import { PositionEval, SearchStats as SearchStatsType } from "@/types/eval";
+import { Stack, Tooltip, Typography } from "@mui/material";
+
+interface Props {
+  positionEval: PositionEval;
+}
+
+export default function SearchStats({ positionEval }: Props) {
+  // Evals restored from the saved lines only carry the per line stats
+  const stats: SearchStatsType =
+    positionEval.nodes !== undefined ? positionEval : positionEval.lines[0];
+  const depth = positionEval.lines[0]?.depth;
+
+  if (!stats || stats.nodes === undefined) return null;
+
+  const items: { label: string; value: string; tooltip: string }[] = [
+    {
+      label: "Depth",
+      value: stats.seldepth ? `${depth}/${stats.seldepth}` : `${depth}`,
+      tooltip: "Nominal depth / deepest line searched",
+    },
+    {
+      label: "Nodes",
+      value: formatCount(stats.nodes),
+      tooltip: "Positions searched",
+    },
+  ];
+
+  if (stats.nps !== undefined) {
+    items.push({
+      label: "Speed",
+      value: `${formatCount(stats.nps)}/s`,
+      tooltip: "Nodes searched per second",
+    });
+  }
+  if (stats.time !== undefined) {
+    items.push({
+      label: "Time",
+      value: `${(stats.time / 1000).toFixed(1)}s`,
+      tooltip: "Search time",
+    });
+  }
+  if (stats.hashfull !== undefined) {
+    items.push({
+      label: "Hash",
+      value: `${Math.round(stats.hashfull / 10)}%`,
+      tooltip: "Hash table usage",
+    });
+  }
+  if (stats.tbhits) {
+    items.push({
+      label: "TB hits",
+      value: formatCount(stats.tbhits),
+      tooltip: "Endgame tablebase hits",
+    });
+  }
+
+  return (
+    <Stack
+      direction="row"
+      flexWrap="wrap"
+      columnGap={1.5}
+      width="95%"
+      paddingX={1}
+    >
+      {items.map(({ label, value, tooltip }) => (
+        <Tooltip key={label} title={tooltip}>
+          <Typography fontSize="0.75rem" color="text.secondary" noWrap>
+            {label} {value}
+          </Typography>
+        </Tooltip>
+      ))}
+    </Stack>
+  );
+}
+
+const formatCount = (count: number): string => {
+  if (count >= 1e9) return `${(count / 1e9).toFixed(1)}G`;
+  if (count >= 1e6) return `${(count / 1e6).toFixed(1)}M`;
+  if (count >= 1e3) return `${(count / 1e3).toFixed(0)}k`;
+  return `${count}`;
+};
@@ -0,0 +1,42 @@
+import { getLineEvalLabel, moveLineUciToSan } from "@/lib/chess";
+import { ListItem, Typography } from "@mui/material";
+import { useAtomValue } from "jotai";
+import { positionThreatAtom } from "../../../states";
+
+const THREAT_LINE_MOVES_NB = 5;
+
+export default function ThreatLine() {
+  const threat = useAtomValue(positionThreatAtom);
+  if (!threat) return null;
+
+  const uciToSan = moveLineUciToSan(threat.fen);
+  const sanMoves = threat.line.pv
+    .slice(0, THREAT_LINE_MOVES_NB)
+    .map((uci) => uciToSan(uci));
+
+  return (
+    <ListItem disablePadding sx={{ width: "95%" }}>
+      <Typography
+        marginRight={1.5}
+        marginY={0.3}
+        paddingY={0.2}
+        noWrap
+        width="3.5em"
+        minWidth="3.5em"
+        textAlign="center"
+        fontSize="0.8rem"
+        borderRadius="5px"
+        border="1px solid"
+        borderColor="error.main"
+        color="error.main"
+        fontWeight="500"
+      >
+        {getLineEvalLabel(threat.line)}
+      </Typography>
+
+      <Typography noWrap fontSize="0.9rem" color="text.secondary">
+        Threat: {sanMoves.join(", ")}
+      </Typography>
+    </ListItem>
+  );
+}
@@ -10,6 +10,8 @@ import PlayersMetric from "./playersMetric";
 import MoveInfo from "./moveInfo";
 import Opening from "./opening";
 import EngineLines from "./engineLines";
+import CandidateMoves from "./candidateMoves";
+import { capitalize } from "@/lib/helpers";
 
 export default function AnalysisTab(props: GridProps) {
   const gameEval = useAtomValue(gameEvalAtom);
@@ -54,9 +56,15 @@ export default function AnalysisTab(props: GridProps) {
 
         {gameEval?.estimatedElo && (
           <PlayersMetric
-            title="Game Rating"
+            title={
+              gameEval.estimatedElo.timeControlCategory
+                ? `${capitalize(gameEval.estimatedElo.timeControlCategory)} Rating`
+                : "Game Rating"
+            }
             whiteValue={Math.round(gameEval.estimatedElo.white)}
             blackValue={Math.round(gameEval.estimatedElo.black)}
+            whiteRange={gameEval.estimatedElo.whiteRange}
+            blackRange={gameEval.estimatedElo.blackRange}
           />
         )}
 
@@ -71,7 +79,16 @@ export default function AnalysisTab(props: GridProps) {
         )}
       </Stack>
 
-      <EngineLines size={{ lg: gameEval ? undefined : 12 }} />
+      <Stack
+        justifyContent="center"
+        alignItems="center"
+        rowGap={1}
+        width="100%"
+      >
+        <EngineLines size={{ lg: gameEval ? undefined : 12 }} />
+
+        <CandidateMoves />
+      </Stack>
     </Grid>
   );
 }
@@ -48,7 +48,8 @@ export default function MoveInfo() {
     moveClassification !== MoveClassification.Opening &&
     moveClassification !== MoveClassification.Forced &&
     moveClassification !== MoveClassification.Splendid &&
-    moveClassification !== MoveClassification.Perfect;
+    moveClassification !== MoveClassification.Perfect &&
+    moveClassification !== MoveClassification.Great;
 
   return (
     <Stack
@@ -116,10 +117,12 @@ const moveClassificationLabels: Record<MoveClassification, string> = {
   [MoveClassification.Forced]: "forced",
   [MoveClassification.Splendid]: "splendid !!",
   [MoveClassification.Perfect]: "the only good move !",
+  [MoveClassification.Great]: "a great move, the only one to hold !",
   [MoveClassification.Best]: "the best move",
   [MoveClassification.Excellent]: "excellent",
   [MoveClassification.Okay]: "an okay move",
   [MoveClassification.Inaccuracy]: "an inaccuracy",
   [MoveClassification.Mistake]: "a mistake",
+  [MoveClassification.Miss]: "a miss, the opponent's mistake was not punished",
   [MoveClassification.Blunder]: "a blunder",
 };
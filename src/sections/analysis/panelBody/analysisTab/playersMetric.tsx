@@ -1,15 +1,20 @@
+import { EloRange } from "@/types/eval";
 import { Stack, Typography } from "@mui/material";
 
 interface Props {
   title: string;
   whiteValue: string | number;
   blackValue: string | number;
+  whiteRange?: EloRange;
+  blackRange?: EloRange;
 }
 
 export default function PlayersMetric({
   title,
   whiteValue,
   blackValue,
+  whiteRange,
+  blackRange,
 }: Props) {
   return (
     <Stack
@@ -18,40 +23,55 @@ export default function PlayersMetric({
       flexDirection="row"
       columnGap={{ xs: "8vw", md: 10 }}
     >
-      <ValueBlock value={whiteValue} color="white" />
+      <ValueBlock value={whiteValue} range={whiteRange} color="white" />
 
       <Typography align="center" fontSize="0.8em" noWrap>
         {title}
       </Typography>
 
-      <ValueBlock value={blackValue} color="black" />
+      <ValueBlock value={blackValue} range={blackRange} color="black" />
     </Stack>
   );
 }
 
 const ValueBlock = ({
   value,
+  range,
   color,
 }: {
   value: string | number;
+  range?: EloRange;
   color: "white" | "black";
 }) => {
   return (
-    <Typography
-      align="center"
-      sx={{
-        backgroundColor: color,
-        color: color === "white" ? "black" : "white",
-      }}
-      borderRadius="5px"
-      lineHeight="1em"
-      fontSize="0.9em"
-      padding={0.8}
-      fontWeight="500"
-      border="1px solid #424242"
-      noWrap
-    >
-      {value}
-    </Typography>
+    <Stack justifyContent="center" alignItems="center" rowGap={0.3}>
+      <Typography
+        align="center"
+        sx={{
+          backgroundColor: color,
+          color: color === "white" ? "black" : "white",
+        }}
+        borderRadius="5px"
+        lineHeight="1em"
+        fontSize="0.9em"
+        padding={0.8}
+        fontWeight="500"
+        border="1px solid #424242"
+        noWrap
+      >
+        {value}
+      </Typography>
+
+      {range && (
+        <Typography
+          align="center"
+          fontSize="0.7em"
+          color="text.secondary"
+          noWrap
+        >
+          {Math.round(range.min)} – {Math.round(range.max)}
+        </Typography>
+      )}
+    </Stack>
   );
 };
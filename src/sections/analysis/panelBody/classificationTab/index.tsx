@@ -1,6 +1,7 @@
 import { Grid2 as Grid, Grid2Props as GridProps } from "@mui/material";
 import MovesPanel from "./movesPanel";
 import MovesClassificationsRecap from "./movesClassificationsRecap";
+import PhasesRecap from "./phasesRecap";
 
 export default function ClassificationTab(props: GridProps) {
   return (
@@ -18,6 +19,8 @@ export default function ClassificationTab(props: GridProps) {
       <MovesPanel />
 
       <MovesClassificationsRecap />
+
+      <PhasesRecap />
     </Grid>
   );
 }
@@ -53,11 +53,13 @@ export default function MovesClassificationsRecap() {
 export const sortedMoveClassfications = [
   MoveClassification.Splendid,
   MoveClassification.Perfect,
+  MoveClassification.Great,
   MoveClassification.Best,
   MoveClassification.Excellent,
   MoveClassification.Okay,
   MoveClassification.Opening,
   MoveClassification.Inaccuracy,
   MoveClassification.Mistake,
+  MoveClassification.Miss,
   MoveClassification.Blunder,
 ];
@@ -0,0 +1,58 @@
+import { usePlayersData } from "@/hooks/usePlayersData";
+import { Grid2 as Grid, Typography } from "@mui/material";
+import { gameAtom, gameEvalAtom } from "../../../states";
+import { GamePhase } from "@/types/enums";
+import PhaseRow from "./phaseRow";
+import { useAtomValue } from "jotai";
+
+export default function PhasesRecap() {
+  const { white, black } = usePlayersData(gameAtom);
+  const gameEval = useAtomValue(gameEvalAtom);
+
+  const phases = gameEval?.phases;
+  if (!phases) return null;
+
+  const playedPhases = sortedGamePhases.filter(
+    (phase) => phases[phase].white.movesNb || phases[phase].black.movesNb
+  );
+  if (!playedPhases.length) return null;
+
+  return (
+    <Grid
+      container
+      justifyContent="center"
+      alignItems="center"
+      rowGap={0.7}
+      marginTop={2}
+      size={12}
+    >
+      <Grid
+        container
+        alignItems="center"
+        justifyContent="space-evenly"
+        wrap="nowrap"
+        size={12}
+      >
+        <Typography width="12rem" align="center" noWrap fontSize="0.9rem">
+          {white.name}
+        </Typography>
+
+        <Typography width="7rem" />
+
+        <Typography width="12rem" align="center" noWrap fontSize="0.9rem">
+          {black.name}
+        </Typography>
+      </Grid>
+
+      {playedPhases.map((phase) => (
+        <PhaseRow key={phase} phase={phase} stats={phases[phase]} />
+      ))}
+    </Grid>
+  );
+}
+
+const sortedGamePhases = [
+  GamePhase.Opening,
+  GamePhase.Middlegame,
+  GamePhase.Endgame,
+];
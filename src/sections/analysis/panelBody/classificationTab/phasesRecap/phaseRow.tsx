@@ -0,0 +1,80 @@
+import { GamePhase, MoveClassification } from "@/types/enums";
+import { GamePhasesStats, PlayerPhaseStats } from "@/types/eval";
+import { Grid2 as Grid, Tooltip, Typography } from "@mui/material";
+import { capitalize } from "@/lib/helpers";
+import { CLASSIFICATION_COLORS } from "@/constants";
+
+interface Props {
+  phase: GamePhase;
+  stats: GamePhasesStats[GamePhase];
+}
+
+export default function PhaseRow({ phase, stats }: Props) {
+  return (
+    <Grid
+      container
+      justifyContent="space-evenly"
+      alignItems="center"
+      wrap="nowrap"
+      size={12}
+    >
+      <PlayerPhaseStatsCell stats={stats.white} />
+
+      <Typography width="7rem" align="center" fontSize="0.9rem">
+        {capitalize(phase)}
+      </Typography>
+
+      <PlayerPhaseStatsCell stats={stats.black} />
+    </Grid>
+  );
+}
+
+const errorClassifications = [
+  MoveClassification.Inaccuracy,
+  MoveClassification.Mistake,
+  MoveClassification.Miss,
+  MoveClassification.Blunder,
+];
+
+function PlayerPhaseStatsCell({ stats }: { stats: PlayerPhaseStats }) {
+  if (!stats.movesNb) {
+    return (
+      <Typography width="12rem" align="center" fontSize="0.9rem">
+        -
+      </Typography>
+    );
+  }
+
+  return (
+    <Grid
+      container
+      direction="column"
+      justifyContent="center"
+      alignItems="center"
+      width="12rem"
+    >
+      <Typography align="center" fontSize="0.9rem">
+        {stats.accuracy !== undefined && `${stats.accuracy.toFixed(1)} %`}
+        {stats.averageCpl !== undefined &&
+          ` · ${Math.round(stats.averageCpl)} ACPL`}
+      </Typography>
+
+      <Grid container justifyContent="center" columnGap={1}>
+        {errorClassifications.map((classification) => (
+          <Tooltip
+            key={classification}
+            title={capitalize(classification)}
+            placement="bottom"
+          >
+            <Typography
+              fontSize="0.8rem"
+              color={CLASSIFICATION_COLORS[classification]}
+            >
+              {stats.classifications[classification] ?? 0}
+            </Typography>
+          </Tooltip>
+        ))}
+      </Grid>
+    </Grid>
+  );
+}
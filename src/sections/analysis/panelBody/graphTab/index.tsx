@@ -67,8 +67,10 @@ export default function GraphTab(props: GridProps) {
         [
           MoveClassification.Splendid,
           MoveClassification.Perfect,
+          MoveClassification.Great,
           MoveClassification.Blunder,
           MoveClassification.Mistake,
+          MoveClassification.Miss,
         ].includes(moveClass) ||
         (moveClass === MoveClassification.Best &&
           bestDotIndices.has(payload.moveNb))
@@ -0,0 +1,42 @@
+import {
+  Grid2 as Grid,
+  Grid2Props as GridProps,
+  Typography,
+} from "@mui/material";
+import { useAtomValue } from "jotai";
+import { gameEvalAtom } from "../../states";
+import KeyMomentItem from "./keyMomentItem";
+
+export default function KeyMomentsTab(props: GridProps) {
+  const gameEval = useAtomValue(gameEvalAtom);
+
+  if (!gameEval?.keyMoments) return null;
+
+  return (
+    <Grid
+      container
+      justifyContent="center"
+      alignItems="start"
+      rowGap={1}
+      maxHeight={{ lg: "16rem" }}
+      flexShrink={0}
+      size={12}
+      {...props}
+      sx={
+        props.hidden
+          ? { display: "none" }
+          : { scrollbarWidth: "thin", overflowY: "auto", ...props.sx }
+      }
+    >
+      {gameEval.keyMoments.length ? (
+        gameEval.keyMoments.map((keyMoment) => (
+          <KeyMomentItem key={keyMoment.positionIdx} keyMoment={keyMoment} />
+        ))
+      ) : (
+        <Typography align="center" fontSize="0.9rem">
+          No turning point in this game
+        </Typography>
+      )}
+    </Grid>
+  );
+}
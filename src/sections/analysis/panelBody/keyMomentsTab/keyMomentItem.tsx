@@ -0,0 +1,102 @@
+import { KeyMomentType } from "@/types/enums";
+import { KeyMoment } from "@/types/eval";
+import { Grid2 as Grid, Stack, Typography } from "@mui/material";
+import { useAtomValue } from "jotai";
+import { useMemo } from "react";
+import { boardAtom, gameAtom } from "../../states";
+import { useChessActions } from "@/hooks/useChessActions";
+import { getLineEvalLabel, moveLineUciToSan } from "@/lib/chess";
+import PrettyMoveSan from "@/components/prettyMoveSan";
+
+const BEST_LINE_MAX_MOVES_NB = 6;
+
+const KEY_MOMENT_LABELS: Record<KeyMomentType, string> = {
+  [KeyMomentType.MissedWin]: "Missed win",
+  [KeyMomentType.OutcomeChange]: "Outcome change",
+  [KeyMomentType.Drop]: "Evaluation drop",
+};
+
+interface Props {
+  keyMoment: KeyMoment;
+}
+
+export default function KeyMomentItem({ keyMoment }: Props) {
+  const game = useAtomValue(gameAtom);
+  const board = useAtomValue(boardAtom);
+  const { goToMove } = useChessActions(boardAtom);
+
+  const move = useMemo(
+    () => game.history({ verbose: true })[keyMoment.positionIdx - 1],
+    [game, keyMoment.positionIdx]
+  );
+
+  const bestLineSan = useMemo(() => {
+    if (!move) return [];
+
+    return keyMoment.bestLine
+      .slice(0, BEST_LINE_MAX_MOVES_NB)
+      .map(moveLineUciToSan(move.before));
+  }, [move, keyMoment.bestLine]);
+
+  if (!move) return null;
+
+  const isCurrentMoment = board.history().length === keyMoment.positionIdx;
+  const moveNb = Math.ceil(keyMoment.positionIdx / 2);
+  const opponentColor = move.color === "w" ? "b" : "w";
+
+  return (
+    <Grid
+      container
+      direction="column"
+      rowGap={0.5}
+      padding={1}
+      borderRadius={2}
+      border={1}
+      borderColor={isCurrentMoment ? "primary.main" : "divider"}
+      style={{ cursor: "pointer" }}
+      onClick={() => goToMove(keyMoment.positionIdx, game)}
+      size={{ xs: 12, sm: 10 }}
+    >
+      <Stack direction="row" alignItems="center" columnGap={1}>
+        <Typography fontSize="0.9rem">
+          {moveNb}
+          {move.color === "w" ? "." : "..."}
+        </Typography>
+
+        <PrettyMoveSan san={move.san} color={move.color} />
+
+        <Typography fontSize="0.9rem" fontWeight="500">
+          {KEY_MOMENT_LABELS[keyMoment.type]}
+        </Typography>
+
+        <Typography fontSize="0.9rem" marginLeft="auto" noWrap>
+          {getLineEvalLabel(keyMoment.evalBefore)} →{" "}
+          {getLineEvalLabel(keyMoment.evalAfter)}
+        </Typography>
+      </Stack>
+
+      {!!bestLineSan.length && (
+        <Stack
+          direction="row"
+          alignItems="center"
+          columnGap={0.5}
+          flexWrap="wrap"
+        >
+          <Typography fontSize="0.8rem" color="text.secondary">
+            Best line:
+          </Typography>
+
+          {bestLineSan.map((san, i) => (
+            <PrettyMoveSan
+              key={i}
+              san={san}
+              color={i % 2 === 0 ? move.color : opponentColor}
+              additionalText={i < bestLineSan.length - 1 ? "," : ""}
+              typographyProps={{ fontSize: "0.8rem" }}
+            />
+          ))}
+        </Stack>
+      )}
+    </Grid>
+  );
+}
@@ -1,13 +1,18 @@
 import { Icon } from "@iconify/react";
 import {
+  engineAdaptiveDepthAtom,
   engineDepthAtom,
   engineMultiPvAtom,
   engineNameAtom,
+  engineSearchLimitsAtom,
   engineWorkersNbAtom,
   evaluationProgressAtom,
   gameAtom,
   gameEvalAtom,
+  remoteEngineUrlAtom,
+  classificationProfileAtom,
   savedEvalsAtom,
+  infiniteAnalysisAtom,
 } from "../states";
 import { useAtom, useAtomValue, useSetAtom } from "jotai";
 import { getEvaluateGameParams } from "@/lib/chess";
@@ -15,116 +20,283 @@ import { useGameDatabase } from "@/hooks/useGameDatabase";
 import { LoadingButton } from "@mui/lab";
 import { useEngine } from "@/hooks/useEngine";
 import { logAnalyticsEvent } from "@/lib/firebaseAnalytics";
-import { SavedEvals } from "@/types/eval";
-import { useEffect, useCallback } from "react";
+import { GameEval, SavedEvals } from "@/types/eval";
+import { useEffect, useCallback, useMemo, useState } from "react";
 import { usePlayersData } from "@/hooks/usePlayersData";
-import { Typography } from "@mui/material";
+import { Alert, Button, Snackbar, Typography } from "@mui/material";
 import { useCurrentPosition } from "../hooks/useCurrentPosition";
+import { useEngineUciOptions } from "../hooks/useEngineUciOptions";
+import { useThreatAnalysis } from "../hooks/useThreatAnalysis";
+import { useCandidateMoves } from "../hooks/useCandidateMoves";
+import { logErrorToSentry } from "@/lib/sentry";
+import { EngineName } from "@/types/enums";
+import {
+  AnalysisProgress,
+  AnalysisProgressSettings,
+  deleteAnalysisProgress,
+  getAnalysisProgress,
+  getAnalysisProgressKey,
+  getEvaluatedPositionsNb,
+  saveAnalysisProgressPosition,
+} from "@/lib/engine/analysisProgress";
 
 export default function AnalyzeButton() {
   const engineName = useAtomValue(engineNameAtom);
-  const engine = useEngine(engineName);
+  const remoteEngineUrl = useAtomValue(remoteEngineUrlAtom);
+  const engine = useEngine(
+    engineName,
+    engineName === EngineName.Remote ? remoteEngineUrl : undefined
+  );
   useCurrentPosition(engine);
+  useEngineUciOptions(engine, engineName);
+  useThreatAnalysis(engine);
+  useCandidateMoves(engine);
   const engineWorkersNb = useAtomValue(engineWorkersNbAtom);
   const [evaluationProgress, setEvaluationProgress] = useAtom(
     evaluationProgressAtom
   );
   const engineDepth = useAtomValue(engineDepthAtom);
   const engineMultiPv = useAtomValue(engineMultiPvAtom);
+  const engineSearchLimits = useAtomValue(engineSearchLimitsAtom);
+  const engineAdaptiveDepth = useAtomValue(engineAdaptiveDepthAtom);
+  const classificationProfile = useAtomValue(classificationProfileAtom);
   const { setGameEval, gameFromUrl } = useGameDatabase();
   const [gameEval, setEval] = useAtom(gameEvalAtom);
   const game = useAtomValue(gameAtom);
   const setSavedEvals = useSetAtom(savedEvalsAtom);
+  const setInfiniteAnalysis = useSetAtom(infiniteAnalysisAtom);
   const { white, black } = usePlayersData(gameAtom);
+  const [analysisError, setAnalysisError] = useState("");
+  const [showAnalysisError, setShowAnalysisError] = useState(false);
+  // Undefined until the database has been checked for an interrupted analysis
+  const [resumableProgress, setResumableProgress] = useState<
+    AnalysisProgress | null | undefined
+  >(undefined);
+
+  const progressSettings: AnalysisProgressSettings = useMemo(
+    () => ({
+      engine: engineName,
+      depth: engineDepth,
+      multiPv: engineMultiPv,
+      movetime: engineSearchLimits.movetime,
+      nodes: engineSearchLimits.nodes,
+      totalTime: engineSearchLimits.totalTime,
+      classificationProfile,
+    }),
+    [
+      engineName,
+      engineDepth,
+      engineMultiPv,
+      engineSearchLimits,
+      classificationProfile,
+    ]
+  );
 
   const readyToAnalyse =
     engine?.getIsReady() && game.history().length > 0 && !evaluationProgress;
 
-  const handleAnalyze = useCallback(async () => {
-    const params = getEvaluateGameParams(game);
-    if (
-      !engine?.getIsReady() ||
-      params.fens.length === 0 ||
-      evaluationProgress
-    ) {
-      return;
-    }
+  const handleAnalyze = useCallback(
+    async (progressToResume?: AnalysisProgress) => {
+      const params = getEvaluateGameParams(game);
+      if (
+        !engine?.getIsReady() ||
+        params.fens.length === 0 ||
+        evaluationProgress
+      ) {
+        return;
+      }
 
-    const newGameEval = await engine.evaluateGame({
-      ...params,
-      depth: engineDepth,
-      multiPv: engineMultiPv,
-      setEvaluationProgress,
-      playersRatings: {
-        white: white?.rating,
-        black: black?.rating,
-      },
-      workersNb: engineWorkersNb,
-    });
+      const progressKey = getAnalysisProgressKey(params.fens, params.uciMoves);
+      setResumableProgress(null);
+      // The live search would keep a worker busy for the whole analysis
+      setInfiniteAnalysis(false);
+      if (!progressToResume) await deleteAnalysisProgress(progressKey);
 
-    setEval(newGameEval);
-    setEvaluationProgress(0);
+      let newGameEval: GameEval;
+      try {
+        newGameEval = await engine.evaluateGame({
+          ...params,
+          depth: engineDepth,
+          multiPv: engineMultiPv,
+          ...engineSearchLimits,
+          adaptiveDepth: engineAdaptiveDepth,
+          setEvaluationProgress,
+          playersRatings: {
+            white: white?.rating,
+            black: black?.rating,
+          },
+          classificationProfile: classificationProfile ?? undefined,
+          workersNb: engineWorkersNb,
+          initialPositions: progressToResume?.positions,
+          previousGameEval: gameEval ?? gameFromUrl?.eval,
+          onPositionEval: (index, positionEval) =>
+            saveAnalysisProgressPosition(
+              progressKey,
+              progressSettings,
+              params.fens.length,
+              index,
+              positionEval
+            ),
+        });
+      } catch (error) {
+        setEvaluationProgress(0);
+        logErrorToSentry(error, { engineName, progressKey });
+        setAnalysisError(
+          error instanceof Error && error.message
+            ? error.message
+            : "The game analysis failed"
+        );
+        setShowAnalysisError(true);
+        setResumableProgress(
+          (await getAnalysisProgress(progressKey, progressSettings)) ?? null
+        );
+        return;
+      }
 
-    if (gameFromUrl) {
-      setGameEval(gameFromUrl.id, newGameEval);
-    }
+      setEval(newGameEval);
+      setEvaluationProgress(0);
+      deleteAnalysisProgress(progressKey);
 
-    const gameSavedEvals: SavedEvals = params.fens.reduce((acc, fen, idx) => {
-      acc[fen] = { ...newGameEval.positions[idx], engine: engineName };
-      return acc;
-    }, {} as SavedEvals);
-    setSavedEvals((prev) => ({
-      ...prev,
-      ...gameSavedEvals,
-    }));
+      if (gameFromUrl) {
+        setGameEval(gameFromUrl.id, newGameEval);
+      }
 
-    logAnalyticsEvent("analyze_game", {
-      engine: engineName,
-      depth: engineDepth,
-      multiPv: engineMultiPv,
-      nbPositions: params.fens.length,
-    });
-  }, [
-    engine,
-    engineName,
-    engineWorkersNb,
-    game,
-    engineDepth,
-    engineMultiPv,
-    evaluationProgress,
-    setEvaluationProgress,
-    setEval,
-    gameFromUrl,
-    setGameEval,
-    setSavedEvals,
-    white.rating,
-    black.rating,
-  ]);
+      const gameSavedEvals: SavedEvals = params.fens.reduce((acc, fen, idx) => {
+        acc[fen] = { ...newGameEval.positions[idx], engine: engineName };
+        return acc;
+      }, {} as SavedEvals);
+      setSavedEvals((prev) => ({
+        ...prev,
+        ...gameSavedEvals,
+      }));
+
+      logAnalyticsEvent("analyze_game", {
+        engine: engineName,
+        depth: engineDepth,
+        multiPv: engineMultiPv,
+        nbPositions: params.fens.length,
+      });
+    },
+    [
+      engine,
+      engineName,
+      progressSettings,
+      engineWorkersNb,
+      game,
+      engineDepth,
+      engineMultiPv,
+      engineSearchLimits,
+      engineAdaptiveDepth,
+      classificationProfile,
+      evaluationProgress,
+      setEvaluationProgress,
+      gameEval,
+      setEval,
+      gameFromUrl,
+      setGameEval,
+      setSavedEvals,
+      setInfiniteAnalysis,
+      white.rating,
+      black.rating,
+    ]
+  );
 
   useEffect(() => {
     setEvaluationProgress(0);
   }, [engine, setEvaluationProgress]);
 
+  useEffect(() => {
+    setAnalysisError("");
+  }, [engine, game]);
+
+  useEffect(() => {
+    setResumableProgress(undefined);
+
+    const params = getEvaluateGameParams(game);
+    let isOutdated = false;
+
+    getAnalysisProgress(
+      getAnalysisProgressKey(params.fens, params.uciMoves),
+      progressSettings
+    ).then((progress) => {
+      if (!isOutdated) setResumableProgress(progress ?? null);
+    });
+
+    return () => {
+      isOutdated = true;
+    };
+  }, [game, progressSettings]);
+
   // Automatically analyze when a new game is loaded and ready to analyze
   useEffect(() => {
-    if (!gameEval && readyToAnalyse) {
+    if (
+      !gameEval &&
+      readyToAnalyse &&
+      !analysisError &&
+      resumableProgress === null
+    ) {
       handleAnalyze();
     }
-  }, [gameEval, readyToAnalyse, handleAnalyze]);
+  }, [
+    gameEval,
+    readyToAnalyse,
+    analysisError,
+    resumableProgress,
+    handleAnalyze,
+  ]);
 
   if (evaluationProgress) return null;
 
+  if (resumableProgress && readyToAnalyse) {
+    return (
+      <Alert
+        severity="info"
+        action={
+          <>
+            <Button
+              size="small"
+              onClick={() => handleAnalyze(resumableProgress)}
+            >
+              Resume
+            </Button>
+            <Button size="small" onClick={() => handleAnalyze()}>
+              Restart
+            </Button>
+          </>
+        }
+      >
+        Analysis interrupted, {getEvaluatedPositionsNb(resumableProgress)}/
+        {resumableProgress.positionsNb} positions evaluated
+      </Alert>
+    );
+  }
+
   return (
-    <LoadingButton
-      variant="contained"
-      size="small"
-      startIcon={<Icon icon="streamline:magnifying-glass-solid" height={12} />}
-      onClick={handleAnalyze}
-      disabled={!readyToAnalyse}
-    >
-      <Typography fontSize="0.9em" fontWeight="500" lineHeight="1.4em">
-        {gameEval ? "Analyze again" : "Analyze"}
-      </Typography>
-    </LoadingButton>
+    <>
+      <LoadingButton
+        variant="contained"
+        size="small"
+        startIcon={
+          <Icon icon="streamline:magnifying-glass-solid" height={12} />
+        }
+        onClick={() => handleAnalyze()}
+        disabled={!readyToAnalyse}
+      >
+        <Typography fontSize="0.9em" fontWeight="500" lineHeight="1.4em">
+          {gameEval ? "Analyze again" : "Analyze"}
+        </Typography>
+      </LoadingButton>
+
+      <Snackbar open={showAnalysisError}>
+        <Alert
+          onClose={() => setShowAnalysisError(false)}
+          severity="error"
+          variant="filled"
+          sx={{ width: "100%" }}
+        >
+          {analysisError}
+        </Alert>
+      </Snackbar>
+    </>
   );
 }
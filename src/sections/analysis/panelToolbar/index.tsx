@@ -7,6 +7,8 @@ import FlipBoardButton from "./flipBoardButton";
 import NextMoveButton from "./nextMoveButton";
 import GoToLastPositionButton from "./goToLastPositionButton";
 import SaveButton from "./saveButton";
+import InfiniteAnalysisButton from "./infiniteAnalysisButton";
+import ThreatAnalysisButton from "./threatAnalysisButton";
 import { useEffect } from "react";
 
 export default function PanelToolBar() {
@@ -66,6 +68,10 @@ export default function PanelToolBar() {
 
       <GoToLastPositionButton />
 
+      <InfiniteAnalysisButton />
+
+      <ThreatAnalysisButton />
+
       <Tooltip title="Copy pgn">
         <Grid>
           <IconButton
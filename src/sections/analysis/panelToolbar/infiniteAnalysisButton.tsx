@@ -0,0 +1,35 @@
+import { Icon } from "@iconify/react";
+import { Grid2 as Grid, IconButton, Tooltip } from "@mui/material";
+import { useAtom, useAtomValue } from "jotai";
+import { boardAtom, infiniteAnalysisAtom } from "../states";
+
+export default function InfiniteAnalysisButton() {
+  const [isInfiniteAnalysis, setIsInfiniteAnalysis] =
+    useAtom(infiniteAnalysisAtom);
+  const board = useAtomValue(boardAtom);
+
+  const isGameOver = board.isCheckmate() || board.isStalemate();
+
+  return (
+    <Tooltip
+      title={
+        isInfiniteAnalysis
+          ? "Stop infinite analysis"
+          : "Start infinite analysis"
+      }
+    >
+      <Grid>
+        <IconButton
+          onClick={() => setIsInfiniteAnalysis((prev) => !prev)}
+          disabled={!isInfiniteAnalysis && isGameOver}
+          color={isInfiniteAnalysis ? "primary" : "default"}
+          sx={{ paddingX: 1.2, paddingY: 0.5 }}
+        >
+          <Icon
+            icon={isInfiniteAnalysis ? "ri:stop-circle-line" : "mdi:infinity"}
+          />
+        </IconButton>
+      </Grid>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,24 @@
+import { Icon } from "@iconify/react";
+import { Grid2 as Grid, IconButton, Tooltip } from "@mui/material";
+import { useAtom } from "jotai";
+import { threatAnalysisAtom } from "../states";
+
+export default function ThreatAnalysisButton() {
+  const [isThreatAnalysis, setIsThreatAnalysis] = useAtom(threatAnalysisAtom);
+
+  return (
+    <Tooltip
+      title={isThreatAnalysis ? "Hide opponent threat" : "Show opponent threat"}
+    >
+      <Grid>
+        <IconButton
+          onClick={() => setIsThreatAnalysis((prev) => !prev)}
+          color={isThreatAnalysis ? "primary" : "default"}
+          sx={{ paddingX: 1.2, paddingY: 0.5 }}
+        >
+          <Icon icon="mdi:target" />
+        </IconButton>
+      </Grid>
+    </Tooltip>
+  );
+}
@@ -1,7 +1,20 @@
 import { DEFAULT_ENGINE } from "@/constants";
+import {
+  DEFAULT_REMOTE_ENGINE_URL,
+  REMOTE_ENGINE_URL_STORAGE_KEY,
+} from "@/lib/engine/remoteEngine";
 import { getRecommendedWorkersNb } from "@/lib/engine/worker";
-import { EngineName } from "@/types/enums";
-import { CurrentPosition, GameEval, SavedEvals } from "@/types/eval";
+import { EngineBenchmark, UciOption, UciOptionValues } from "@/types/engine";
+import { ClassificationProfile, EngineName } from "@/types/enums";
+import {
+  CandidateMoveEval,
+  CandidateMoves,
+  CurrentPosition,
+  GameEval,
+  PositionThreat,
+  SavedEvals,
+  SearchLimits,
+} from "@/types/eval";
 import { Chess } from "chess.js";
 import { atom } from "jotai";
 import { atomWithStorage } from "jotai/utils";
@@ -18,10 +31,41 @@ export const showPlayerMoveIconAtom = atom(true);
 export const engineNameAtom = atom<EngineName>(DEFAULT_ENGINE);
 export const engineDepthAtom = atom(14);
 export const engineMultiPvAtom = atom(3);
+export const engineSearchLimitsAtom = atomWithStorage<SearchLimits>(
+  "engineSearchLimits",
+  {}
+);
+// Opt-in, the second pass can add a quarter of the positions at a greater depth
+export const engineAdaptiveDepthAtom = atomWithStorage(
+  "engineAdaptiveDepth",
+  false
+);
 export const engineWorkersNbAtom = atomWithStorage(
   "engineWorkersNb",
   getRecommendedWorkersNb()
 );
+export const engineUciOptionsAtom = atomWithStorage<
+  Partial<Record<EngineName, UciOption[]>>
+>("engineUciOptions", {});
+export const engineUciOptionValuesAtom = atomWithStorage<
+  Partial<Record<EngineName, UciOptionValues>>
+>("engineUciOptionValues", {});
+export const remoteEngineUrlAtom = atomWithStorage(
+  REMOTE_ENGINE_URL_STORAGE_KEY,
+  DEFAULT_REMOTE_ENGINE_URL
+);
+// Null to choose the profile from the players ratings
+export const classificationProfileAtom =
+  atomWithStorage<ClassificationProfile | null>("classificationProfile", null);
+export const engineBenchmarkAtom = atomWithStorage<EngineBenchmark | null>(
+  "engineBenchmark",
+  null
+);
+export const infiniteAnalysisAtom = atom(false);
+export const threatAnalysisAtom = atom(false);
+export const positionThreatAtom = atom<PositionThreat | undefined>(undefined);
+export const candidateMovesAtom = atom<CandidateMoves | undefined>(undefined);
+export const candidateMoveEvalsAtom = atom<CandidateMoveEval[]>([]);
 export const evaluationProgressAtom = atom(0);
 
 export const savedEvalsAtom = atom<SavedEvals>({});
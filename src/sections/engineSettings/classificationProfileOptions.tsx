@@ -0,0 +1,53 @@
+import {
+  FormControl,
+  Grid2 as Grid,
+  InputLabel,
+  MenuItem,
+  OutlinedInput,
+  Select,
+} from "@mui/material";
+import { useAtom } from "jotai";
+import { classificationProfileAtom } from "../analysis/states";
+import { ClassificationProfile } from "@/types/enums";
+import { CLASSIFICATION_PROFILE_LABELS } from "@/lib/engine/helpers/classificationProfiles";
+
+const AUTOMATIC_PROFILE = "auto";
+
+export default function ClassificationProfileOptions() {
+  const [classificationProfile, setClassificationProfile] = useAtom(
+    classificationProfileAtom
+  );
+
+  return (
+    <Grid container justifyContent="center" size={12}>
+      <FormControl variant="outlined">
+        <InputLabel id="classification-profile-select-label">
+          Move classification
+        </InputLabel>
+        <Select
+          labelId="classification-profile-select-label"
+          id="classification-profile-select"
+          input={<OutlinedInput label="Move classification" />}
+          value={classificationProfile ?? AUTOMATIC_PROFILE}
+          onChange={(e) =>
+            setClassificationProfile(
+              e.target.value === AUTOMATIC_PROFILE
+                ? null
+                : (e.target.value as ClassificationProfile)
+            )
+          }
+          sx={{ width: 280, maxWidth: "100%" }}
+        >
+          <MenuItem value={AUTOMATIC_PROFILE}>
+            Automatic, from the players ratings
+          </MenuItem>
+          {Object.values(ClassificationProfile).map((profile) => (
+            <MenuItem key={profile} value={profile}>
+              {CLASSIFICATION_PROFILE_LABELS[profile]}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+    </Grid>
+  );
+}
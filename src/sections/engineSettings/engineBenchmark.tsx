@@ -0,0 +1,132 @@
+import { ENGINE_LABELS } from "@/constants";
+import { runEngineBenchmark } from "@/lib/engine/benchmark";
+import { logErrorToSentry } from "@/lib/sentry";
+import { EngineName } from "@/types/enums";
+import { Icon } from "@iconify/react";
+import { LoadingButton } from "@mui/lab";
+import { Button, Grid2 as Grid, Stack, Typography } from "@mui/material";
+import { useAtom } from "jotai";
+import { useState } from "react";
+import { engineBenchmarkAtom } from "../analysis/states";
+
+const MAX_BENCHMARK_WORKERS_NB = 12;
+
+interface Props {
+  onApply: (engineName: EngineName, workersNb: number) => void;
+}
+
+export default function EngineBenchmark({ onApply }: Props) {
+  const [benchmark, setBenchmark] = useAtom(engineBenchmarkAtom);
+  const [progressLabel, setProgressLabel] = useState<string | null>(null);
+  const [error, setError] = useState(false);
+
+  const handleRunBenchmark = async () => {
+    setError(false);
+    setProgressLabel("Starting");
+
+    try {
+      const newBenchmark = await runEngineBenchmark({
+        maxWorkersNb: Math.min(
+          MAX_BENCHMARK_WORKERS_NB,
+          navigator.hardwareConcurrency || 1
+        ),
+        onProgress: setProgressLabel,
+      });
+      setBenchmark(newBenchmark);
+    } catch (error) {
+      logErrorToSentry(error);
+      setError(true);
+    } finally {
+      setProgressLabel(null);
+    }
+  };
+
+  return (
+    <Grid
+      container
+      justifyContent="center"
+      alignItems="center"
+      size={12}
+      rowGap={1}
+    >
+      <Grid size={12}>
+        <Typography variant="subtitle1" textAlign="center">
+          Engine benchmark
+        </Typography>
+      </Grid>
+
+      {benchmark ? (
+        <Stack alignItems="center" width="100%" gap={0.5}>
+          <Typography variant="body2" textAlign="center">
+            Recommended: {ENGINE_LABELS[benchmark.recommendedEngine].small} with{" "}
+            {benchmark.recommendedWorkersNb} thread
+            {benchmark.recommendedWorkersNb > 1 ? "s" : ""}
+          </Typography>
+
+          {benchmark.results.map(({ engine, nps, loadTime }) => (
+            <Typography
+              key={engine}
+              fontSize="0.8rem"
+              color="text.secondary"
+              textAlign="center"
+            >
+              {ENGINE_LABELS[engine].small}: {Math.round(nps / 1000)}k nodes/s,
+              loaded in {(loadTime / 1000).toFixed(1)}s
+            </Typography>
+          ))}
+
+          <Typography fontSize="0.8rem" color="text.secondary">
+            Run on {new Date(benchmark.date).toLocaleDateString()}
+          </Typography>
+        </Stack>
+      ) : (
+        <Typography variant="body2" textAlign="center" width="100%">
+          Measure the speed of each engine on this device to find the best
+          settings. It downloads every engine and takes about a minute.
+        </Typography>
+      )}
+
+      {error && (
+        <Typography
+          variant="body2"
+          color="error"
+          width="100%"
+          textAlign="center"
+        >
+          The benchmark failed, please try again.
+        </Typography>
+      )}
+
+      <Grid container justifyContent="center" size={12} gap={2}>
+        <LoadingButton
+          variant="outlined"
+          loading={!!progressLabel}
+          loadingPosition="start"
+          startIcon={<Icon icon="mdi:speedometer" />}
+          onClick={handleRunBenchmark}
+        >
+          {progressLabel
+            ? `Benchmarking... ${progressLabel}`
+            : benchmark
+              ? "Re-run benchmark"
+              : "Run benchmark"}
+        </LoadingButton>
+
+        {benchmark && (
+          <Button
+            variant="contained"
+            disabled={!!progressLabel}
+            onClick={() =>
+              onApply(
+                benchmark.recommendedEngine,
+                benchmark.recommendedWorkersNb
+              )
+            }
+          >
+            Apply recommendation
+          </Button>
+        )}
+      </Grid>
+    </Grid>
+  );
+}
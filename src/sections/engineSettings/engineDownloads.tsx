@@ -0,0 +1,157 @@
+import { ENGINE_LABELS } from "@/constants";
+import {
+  deleteEngineAssets,
+  downloadEngineAssets,
+  isEngineAssetsCacheSupported,
+  isEngineDownloaded,
+} from "@/lib/engine/engineAssets";
+import { isEngineSupported } from "@/lib/engine/shared";
+import { logErrorToSentry } from "@/lib/sentry";
+import { EngineName } from "@/types/enums";
+import { Icon } from "@iconify/react";
+import {
+  Grid2 as Grid,
+  IconButton,
+  LinearProgress,
+  Stack,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import { useCallback, useEffect, useState } from "react";
+
+const DOWNLOADABLE_ENGINES = Object.values(EngineName).filter(
+  (engine) => engine !== EngineName.Remote
+);
+
+export default function EngineDownloads() {
+  const [downloadedEngines, setDownloadedEngines] = useState<EngineName[]>([]);
+  const [downloadProgress, setDownloadProgress] = useState<
+    Partial<Record<EngineName, number>>
+  >({});
+  const [failedEngine, setFailedEngine] = useState<EngineName | null>(null);
+
+  const refreshDownloadedEngines = useCallback(async () => {
+    const isDownloaded = await Promise.all(
+      DOWNLOADABLE_ENGINES.map(isEngineDownloaded)
+    );
+    setDownloadedEngines(
+      DOWNLOADABLE_ENGINES.filter((_, i) => isDownloaded[i])
+    );
+  }, []);
+
+  useEffect(() => {
+    refreshDownloadedEngines().catch(logErrorToSentry);
+  }, [refreshDownloadedEngines]);
+
+  const setEngineProgress = (engine: EngineName, progress?: number) =>
+    setDownloadProgress((prev) => ({ ...prev, [engine]: progress }));
+
+  const handleDownload = async (engine: EngineName) => {
+    setFailedEngine(null);
+    setEngineProgress(engine, 0);
+
+    try {
+      await downloadEngineAssets(engine, (progress) =>
+        setEngineProgress(engine, progress)
+      );
+    } catch (error) {
+      logErrorToSentry(error, { engine });
+      setFailedEngine(engine);
+    } finally {
+      setEngineProgress(engine, undefined);
+      await refreshDownloadedEngines();
+    }
+  };
+
+  const handleDelete = async (engine: EngineName) => {
+    try {
+      await deleteEngineAssets(engine);
+    } catch (error) {
+      logErrorToSentry(error, { engine });
+    }
+    await refreshDownloadedEngines();
+  };
+
+  if (!isEngineAssetsCacheSupported()) return null;
+
+  return (
+    <Grid
+      container
+      justifyContent="center"
+      alignItems="center"
+      size={12}
+      rowGap={1}
+    >
+      <Grid size={12}>
+        <Typography variant="subtitle1" textAlign="center">
+          Offline engines
+        </Typography>
+        <Typography variant="body2" textAlign="center">
+          Downloaded engines start instantly and work without a connection.
+        </Typography>
+      </Grid>
+
+      <Stack width="100%" maxWidth={500} gap={0.5}>
+        {DOWNLOADABLE_ENGINES.filter(isEngineSupported).map((engine) => {
+          const progress = downloadProgress[engine];
+          const isDownloaded = downloadedEngines.includes(engine);
+
+          return (
+            <Stack key={engine} gap={0.5}>
+              <Stack
+                direction="row"
+                alignItems="center"
+                justifyContent="space-between"
+                gap={1}
+              >
+                <Typography variant="body2">
+                  {ENGINE_LABELS[engine].full}
+                </Typography>
+
+                <Stack direction="row" alignItems="center" gap={1}>
+                  {failedEngine === engine && (
+                    <Typography variant="body2" color="error">
+                      Download failed
+                    </Typography>
+                  )}
+
+                  {isDownloaded ? (
+                    <>
+                      <Typography variant="body2" color="success.main">
+                        Available offline
+                      </Typography>
+                      <Tooltip title="Delete to free space">
+                        <IconButton
+                          size="small"
+                          onClick={() => handleDelete(engine)}
+                        >
+                          <Icon icon="mdi:delete-outline" />
+                        </IconButton>
+                      </Tooltip>
+                    </>
+                  ) : (
+                    <Tooltip title="Download for offline use">
+                      <span>
+                        <IconButton
+                          size="small"
+                          disabled={progress !== undefined}
+                          onClick={() => handleDownload(engine)}
+                        >
+                          <Icon icon="mdi:download" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  )}
+                </Stack>
+              </Stack>
+
+              {progress !== undefined && (
+                <LinearProgress variant="determinate" value={progress} />
+              )}
+            </Stack>
+          );
+        })}
+      </Stack>
+    </Grid>
+  );
+}
@@ -15,14 +15,23 @@ import {
   Grid2 as Grid,
   Box,
   useTheme,
+  Checkbox,
+  FormControlLabel,
 } from "@mui/material";
 import {
   engineNameAtom,
   engineDepthAtom,
   engineMultiPvAtom,
   engineWorkersNbAtom,
+  engineAdaptiveDepthAtom,
 } from "../analysis/states";
 import ArrowOptions from "./arrowOptions";
+import SearchLimitOptions from "./searchLimitOptions";
+import ClassificationProfileOptions from "./classificationProfileOptions";
+import UciOptions from "./uciOptions";
+import EngineBenchmark from "./engineBenchmark";
+import RemoteEngineOptions from "./remoteEngineOptions";
+import EngineDownloads from "./engineDownloads";
 import { useAtomLocalStorage } from "@/hooks/useAtomLocalStorage";
 import { useEffect } from "react";
 import { isEngineSupported } from "@/lib/engine/shared";
@@ -59,6 +68,7 @@ export default function EngineSettingsDialog({ open, onClose }: Props) {
   const [boardHue, setBoardHue] = useAtom(boardHueAtom);
   const [pieceSet, setPieceSet] = useAtom(pieceSetAtom);
   const [engineWorkersNb, setEngineWorkersNb] = useAtom(engineWorkersNbAtom);
+  const [adaptiveDepth, setAdaptiveDepth] = useAtom(engineAdaptiveDepthAtom);
 
   const theme = useTheme();
   const isDarkMode = theme.palette.mode === "dark";
@@ -132,6 +142,8 @@ export default function EngineSettingsDialog({ open, onClose }: Props) {
             </FormControl>
           </Grid>
 
+          {engineName === EngineName.Remote && <RemoteEngineOptions />}
+
           <Slider
             label="Maximum depth"
             value={depth}
@@ -151,6 +163,23 @@ export default function EngineSettingsDialog({ open, onClose }: Props) {
             size={6}
           />
 
+          <SearchLimitOptions />
+
+          <Grid container justifyContent="center" size={12}>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={adaptiveDepth}
+                  onChange={(_, checked) => setAdaptiveDepth(checked)}
+                />
+              }
+              label="Search critical moments deeper during game analysis"
+              sx={{ marginX: 0 }}
+            />
+          </Grid>
+
+          <ClassificationProfileOptions />
+
           <ArrowOptions />
 
           <Grid
@@ -230,6 +259,17 @@ export default function EngineSettingsDialog({ open, onClose }: Props) {
               }
             />
           </Grid>
+
+          <UciOptions />
+
+          <EngineBenchmark
+            onApply={(engine, workersNb) => {
+              setEngineName(engine);
+              setEngineWorkersNb(workersNb);
+            }}
+          />
+
+          <EngineDownloads />
         </Grid>
       </DialogContent>
       <DialogActions sx={{ m: 1 }}>
@@ -0,0 +1,43 @@
+import { Grid2 as Grid, TextField } from "@mui/material";
+import { useAtom } from "jotai";
+import { useEffect, useState } from "react";
+import { remoteEngineUrlAtom } from "../analysis/states";
+
+export default function RemoteEngineOptions() {
+  const [remoteEngineUrl, setRemoteEngineUrl] = useAtom(remoteEngineUrlAtom);
+  const [urlInput, setUrlInput] = useState(remoteEngineUrl);
+  const [urlError, setUrlError] = useState(false);
+
+  useEffect(() => {
+    setUrlInput(remoteEngineUrl);
+  }, [remoteEngineUrl]);
+
+  // The engine reconnects on each URL change, only apply it once typing is done
+  const applyUrl = () => {
+    const url = urlInput.trim();
+    const isValidUrl = /^wss?:\/\/.+/.test(url);
+    setUrlError(!isValidUrl);
+    if (isValidUrl) setRemoteEngineUrl(url);
+  };
+
+  return (
+    <Grid container justifyContent="center" size={12}>
+      <TextField
+        label="Remote engine URL"
+        value={urlInput}
+        onChange={(e) => setUrlInput(e.target.value)}
+        onBlur={applyUrl}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") applyUrl();
+        }}
+        error={urlError}
+        helperText={
+          urlError
+            ? "The URL must start with ws:// or wss://"
+            : "Start the bridge with: node tools/uciBridge.mjs --origin <this site's URL> -- /path/to/stockfish"
+        }
+        sx={{ width: 500, maxWidth: "100%" }}
+      />
+    </Grid>
+  );
+}
@@ -0,0 +1,116 @@
+import Slider from "@/components/slider";
+import {
+  FormControl,
+  Grid2 as Grid,
+  InputLabel,
+  MenuItem,
+  OutlinedInput,
+  Select,
+} from "@mui/material";
+import { engineSearchLimitsAtom } from "../analysis/states";
+import { SearchLimits } from "@/types/eval";
+import { useAtom } from "jotai";
+
+type SearchLimitType = "depth" | keyof SearchLimits;
+
+const SEARCH_LIMIT_LABELS: Record<SearchLimitType, string> = {
+  depth: "Depth only",
+  movetime: "Time per move",
+  nodes: "Nodes per move",
+  totalTime: "Total time per game",
+};
+
+const SEARCH_LIMIT_SLIDERS: Record<
+  keyof SearchLimits,
+  { label: string; min: number; max: number; step: number; unit: number }
+> = {
+  movetime: { label: "Seconds per move", min: 1, max: 30, step: 1, unit: 1000 },
+  nodes: {
+    label: "Thousands of nodes per move",
+    min: 100,
+    max: 5000,
+    step: 100,
+    unit: 1000,
+  },
+  totalTime: {
+    label: "Seconds per game",
+    min: 30,
+    max: 600,
+    step: 30,
+    unit: 1000,
+  },
+};
+
+export default function SearchLimitOptions() {
+  const [searchLimits, setSearchLimits] = useAtom(engineSearchLimitsAtom);
+
+  const limitType: SearchLimitType =
+    (Object.keys(SEARCH_LIMIT_SLIDERS) as (keyof SearchLimits)[]).find(
+      (key) => !!searchLimits[key]
+    ) ?? "depth";
+
+  const handleTypeChange = (newType: SearchLimitType) => {
+    if (newType === "depth") {
+      setSearchLimits({});
+      return;
+    }
+
+    const { min, unit } = SEARCH_LIMIT_SLIDERS[newType];
+    setSearchLimits({ [newType]: min * unit });
+  };
+
+  return (
+    <Grid
+      container
+      justifyContent="center"
+      alignItems="center"
+      size={12}
+      rowGap={2}
+    >
+      <Grid container justifyContent="center" size={{ xs: 12, sm: 5, md: 4 }}>
+        <FormControl variant="outlined">
+          <InputLabel id="search-limit-select-label">Search limit</InputLabel>
+          <Select
+            labelId="search-limit-select-label"
+            id="search-limit-select"
+            input={<OutlinedInput label="Search limit" />}
+            value={limitType}
+            onChange={(e) =>
+              handleTypeChange(e.target.value as SearchLimitType)
+            }
+            sx={{ width: 220, maxWidth: "100%" }}
+          >
+            {(Object.keys(SEARCH_LIMIT_LABELS) as SearchLimitType[]).map(
+              (type) => (
+                <MenuItem key={type} value={type}>
+                  {SEARCH_LIMIT_LABELS[type]}
+                </MenuItem>
+              )
+            )}
+          </Select>
+        </FormControl>
+      </Grid>
+
+      {limitType !== "depth" && (
+        <Grid container justifyContent="center" size={{ xs: 12, sm: 7, md: 8 }}>
+          <Slider
+            label={SEARCH_LIMIT_SLIDERS[limitType].label}
+            value={
+              (searchLimits[limitType] ?? 0) /
+              SEARCH_LIMIT_SLIDERS[limitType].unit
+            }
+            setValue={(value) =>
+              setSearchLimits({
+                [limitType]: value * SEARCH_LIMIT_SLIDERS[limitType].unit,
+              })
+            }
+            min={SEARCH_LIMIT_SLIDERS[limitType].min}
+            max={SEARCH_LIMIT_SLIDERS[limitType].max}
+            step={SEARCH_LIMIT_SLIDERS[limitType].step}
+            infoContent="The search stops at whichever comes first between this limit and the maximum depth. The chosen limit is saved with the analysis."
+          />
+        </Grid>
+      )}
+    </Grid>
+  );
+}
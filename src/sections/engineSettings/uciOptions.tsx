@@ -0,0 +1,154 @@
+import Slider from "@/components/slider";
+import {
+  Checkbox,
+  FormControl,
+  FormControlLabel,
+  Grid2 as Grid,
+  InputLabel,
+  MenuItem,
+  OutlinedInput,
+  Select,
+  TextField,
+  Typography,
+} from "@mui/material";
+import {
+  engineNameAtom,
+  engineUciOptionsAtom,
+  engineUciOptionValuesAtom,
+} from "../analysis/states";
+import { UciOption, UciOptionValue } from "@/types/engine";
+import { useAtom, useAtomValue } from "jotai";
+
+const MAX_SLIDER_RANGE = 100;
+
+export default function UciOptions() {
+  const engineName = useAtomValue(engineNameAtom);
+  const engineUciOptions = useAtomValue(engineUciOptionsAtom);
+  const [engineUciOptionValues, setEngineUciOptionValues] = useAtom(
+    engineUciOptionValuesAtom
+  );
+
+  const options = engineUciOptions[engineName];
+  if (!options?.length) return null;
+
+  const optionValues = engineUciOptionValues[engineName] ?? {};
+
+  const setOptionValue = (name: string, value: UciOptionValue) => {
+    setEngineUciOptionValues((prev) => ({
+      ...prev,
+      [engineName]: { ...prev[engineName], [name]: value },
+    }));
+  };
+
+  return (
+    <Grid
+      container
+      justifyContent="center"
+      alignItems="center"
+      size={12}
+      rowGap={2}
+      columnGap={3}
+    >
+      <Grid size={12}>
+        <Typography variant="subtitle1" textAlign="center">
+          Advanced engine options
+        </Typography>
+      </Grid>
+
+      {options.map((option) => (
+        <UciOptionInput
+          key={option.name}
+          option={option}
+          value={optionValues[option.name] ?? option.default}
+          setValue={(value) => setOptionValue(option.name, value)}
+        />
+      ))}
+    </Grid>
+  );
+}
+
+interface UciOptionInputProps {
+  option: UciOption;
+  value: UciOptionValue;
+  setValue: (value: UciOptionValue) => void;
+}
+
+function UciOptionInput({ option, value, setValue }: UciOptionInputProps) {
+  switch (option.type) {
+    case "spin":
+      if (option.max - option.min <= MAX_SLIDER_RANGE) {
+        return (
+          <Slider
+            label={option.name}
+            value={Number(value)}
+            setValue={setValue}
+            min={option.min}
+            max={option.max}
+            size={5}
+          />
+        );
+      }
+
+      return (
+        <TextField
+          label={option.name}
+          type="number"
+          value={value}
+          onChange={(e) => {
+            const newValue = Number(e.target.value);
+            if (newValue >= option.min && newValue <= option.max) {
+              setValue(newValue);
+            }
+          }}
+          slotProps={{ htmlInput: { min: option.min, max: option.max } }}
+          sx={{ width: 200 }}
+        />
+      );
+
+    case "check":
+      return (
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={!!value}
+              onChange={(_, checked) => setValue(checked)}
+            />
+          }
+          label={option.name}
+          sx={{ marginX: 0 }}
+        />
+      );
+
+    case "combo":
+      return (
+        <FormControl variant="outlined">
+          <InputLabel id={`uci-option-${option.name}-label`}>
+            {option.name}
+          </InputLabel>
+          <Select
+            labelId={`uci-option-${option.name}-label`}
+            input={<OutlinedInput label={option.name} />}
+            value={String(value)}
+            onChange={(e) => setValue(e.target.value)}
+            sx={{ width: 200, maxWidth: "100%" }}
+          >
+            {option.vars.map((optionVar) => (
+              <MenuItem key={optionVar} value={optionVar}>
+                {optionVar}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      );
+
+    case "string":
+      return (
+        <TextField
+          label={option.name}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          sx={{ width: 200 }}
+        />
+      );
+  }
+}
@@ -15,6 +15,7 @@ const MenuOptions = [
   { text: "Play", icon: "streamline:chess-pawn", href: "/play" },
   { text: "Analysis", icon: "streamline:magnifying-glass-solid", href: "/" },
   { text: "Database", icon: "streamline:database", href: "/database" },
+  { text: "Engine match", icon: "mdi:sword-cross", href: "/match" },
   { text: "Train", icon: "streamline:brain", href: "/train" }, // 👈 NEW LINE
 ];
 
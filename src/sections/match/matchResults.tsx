@@ -0,0 +1,45 @@
+import { Grid2 as Grid, List, ListItem, Typography } from "@mui/material";
+import { useAtomValue } from "jotai";
+import { matchResultAtom } from "./states";
+
+export default function MatchResults() {
+  const result = useAtomValue(matchResultAtom);
+  if (!result) return null;
+
+  const { games, wins, draws, losses, eloDiff, eloError } = result;
+  const score = wins + draws / 2;
+
+  return (
+    <Grid container justifyContent="center" rowGap={1} size={12}>
+      <Typography variant="h6" width="100%" textAlign="center">
+        First engine: {score}/{games.length} (+{wins} ={draws} -{losses})
+      </Typography>
+
+      <Typography width="100%" textAlign="center">
+        Elo difference: {eloDiff >= 0 ? "+" : ""}
+        {Math.round(eloDiff)} ± {Math.round(eloError)}
+      </Typography>
+
+      <Typography
+        fontSize="0.8rem"
+        color="text.secondary"
+        width="100%"
+        textAlign="center"
+      >
+        95% confidence interval, the games are saved in your database
+      </Typography>
+
+      <List dense sx={{ width: "100%", maxWidth: 500 }}>
+        {games.map((game, i) => (
+          <ListItem key={i} divider>
+            <Typography fontSize="0.9rem">
+              Game {i + 1}:{" "}
+              {game.score === 1 ? "win" : game.score === 0 ? "loss" : "draw"}{" "}
+              for the first engine
+            </Typography>
+          </ListItem>
+        ))}
+      </List>
+    </Grid>
+  );
+}
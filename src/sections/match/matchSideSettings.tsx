@@ -0,0 +1,120 @@
+import Slider from "@/components/slider";
+import { ENGINE_LABELS } from "@/constants";
+import { isEngineSupported } from "@/lib/engine/shared";
+import { MatchSide } from "@/types/engine";
+import { EngineName } from "@/types/enums";
+import {
+  Checkbox,
+  FormControl,
+  FormControlLabel,
+  Grid2 as Grid,
+  InputLabel,
+  MenuItem,
+  OutlinedInput,
+  Select,
+  Typography,
+} from "@mui/material";
+import { PrimitiveAtom, useAtom, useAtomValue } from "jotai";
+import { isMatchRunningAtom } from "./states";
+
+interface Props {
+  title: string;
+  sideAtom: PrimitiveAtom<MatchSide>;
+}
+
+export default function MatchSideSettings({ title, sideAtom }: Props) {
+  const [side, setSide] = useAtom(sideAtom);
+  const isMatchRunning = useAtomValue(isMatchRunningAtom);
+
+  return (
+    <Grid
+      container
+      justifyContent="center"
+      alignItems="center"
+      rowGap={2}
+      size={{ xs: 12, md: 6 }}
+      sx={{ opacity: isMatchRunning ? 0.6 : 1 }}
+    >
+      <Typography variant="h6" width="100%" textAlign="center">
+        {title}
+      </Typography>
+
+      <FormControl variant="outlined" disabled={isMatchRunning}>
+        <InputLabel id={`${title}-engine-label`}>Engine</InputLabel>
+        <Select
+          labelId={`${title}-engine-label`}
+          input={<OutlinedInput label="Engine" />}
+          value={side.engine}
+          onChange={(e) =>
+            setSide({ ...side, engine: e.target.value as EngineName })
+          }
+          sx={{ width: 280, maxWidth: "100%" }}
+        >
+          {Object.values(EngineName).map((engine) => (
+            <MenuItem
+              key={engine}
+              value={engine}
+              disabled={!isEngineSupported(engine)}
+            >
+              {ENGINE_LABELS[engine].full}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      <Slider
+        label="Maximum depth"
+        value={side.depth}
+        setValue={(depth) => setSide({ ...side, depth })}
+        min={1}
+        max={30}
+      />
+
+      <FormControlLabel
+        control={
+          <Checkbox
+            checked={!!side.movetime}
+            disabled={isMatchRunning}
+            onChange={(_, checked) =>
+              setSide({ ...side, movetime: checked ? 1000 : undefined })
+            }
+          />
+        }
+        label="Limit time per move"
+      />
+      {!!side.movetime && (
+        <Slider
+          label="Milliseconds per move"
+          value={side.movetime}
+          setValue={(movetime) => setSide({ ...side, movetime })}
+          min={100}
+          max={5000}
+          step={100}
+        />
+      )}
+
+      <FormControlLabel
+        control={
+          <Checkbox
+            checked={!!side.elo}
+            disabled={isMatchRunning}
+            onChange={(_, checked) =>
+              setSide({ ...side, elo: checked ? 1500 : undefined })
+            }
+          />
+        }
+        label="Limit strength (UCI_Elo)"
+      />
+      {!!side.elo && (
+        <Slider
+          label="Elo"
+          value={side.elo}
+          setValue={(elo) => setSide({ ...side, elo })}
+          min={1320}
+          max={3190}
+          step={10}
+        />
+      )}
+    </Grid>
+  );
+}
@@ -0,0 +1,19 @@
+import { DEFAULT_ENGINE } from "@/constants";
+import { MatchResult, MatchSide } from "@/types/engine";
+import { EngineName } from "@/types/enums";
+import { atom } from "jotai";
+import { atomWithStorage } from "jotai/utils";
+
+export const matchFirstSideAtom = atomWithStorage<MatchSide>("matchFirstSide", {
+  engine: DEFAULT_ENGINE,
+  depth: 12,
+});
+export const matchSecondSideAtom = atomWithStorage<MatchSide>(
+  "matchSecondSide",
+  { engine: EngineName.Stockfish11, depth: 12 }
+);
+export const matchGamesNbAtom = atomWithStorage("matchGamesNb", 10);
+export const matchOpeningFensAtom = atomWithStorage("matchOpeningFens", "");
+
+export const matchResultAtom = atom<MatchResult | null>(null);
+export const isMatchRunningAtom = atom(false);
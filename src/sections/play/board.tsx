@@ -16,6 +16,7 @@ import Board from "@/components/board";
 import { useGameData } from "@/hooks/useGameData";
 import { usePlayersData } from "@/hooks/usePlayersData";
 import { sleep } from "@/lib/helpers";
+import { logErrorToSentry } from "@/lib/sentry";
 
 export default function BoardContainer() {
   const screenSize = useScreenSize();
@@ -32,6 +33,8 @@ export default function BoardContainer() {
   const isGameFinished = game.isGameOver();
 
   useEffect(() => {
+    const abortController = new AbortController();
+
     const playEngineMove = async () => {
       if (
         !engine?.getIsReady() ||
@@ -43,15 +46,21 @@ export default function BoardContainer() {
       }
 
       const timePromise = sleep(1000);
-      const move = await engine.getEngineNextMove(gameFen, engineElo);
+      const move = await engine.getEngineNextMove(gameFen, engineElo, 16, {
+        signal: abortController.signal,
+      });
       await timePromise;
 
-      if (move) playMove(uciMoveParams(move));
+      if (move && !abortController.signal.aborted) {
+        playMove(uciMoveParams(move));
+      }
     };
-    playEngineMove();
+    playEngineMove().catch((error) => {
+      if (!abortController.signal.aborted) logErrorToSentry(error);
+    });
 
     return () => {
-      engine?.stopAllCurrentJobs();
+      abortController.abort();
     };
   }, [gameFen, isGameInProgress]); // eslint-disable-line react-hooks/exhaustive-deps
 
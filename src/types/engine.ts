@@ -1,7 +1,10 @@
+import { EngineName } from "./enums";
+
 export interface EngineWorker {
   isReady: boolean;
   uci(command: string): void;
   listen: (data: string) => void;
+  onError: (error: unknown) => void;
   terminate: () => void;
 }
 
@@ -9,5 +12,56 @@ export interface WorkerJob {
   commands: string[];
   finalMessage: string;
   onNewMessage?: (messages: string[]) => void;
+  stallTimeout?: number;
+  // Aborted by the caller signal or when the engine stops all its jobs
+  abortController: AbortController;
+  attempts: number;
   resolve: (messages: string[]) => void;
+  reject: (error: unknown) => void;
+}
+
+export type UciOption =
+  | { name: string; type: "spin"; default: number; min: number; max: number }
+  | { name: string; type: "check"; default: boolean }
+  | { name: string; type: "combo"; default: string; vars: string[] }
+  | { name: string; type: "string"; default: string };
+
+export type UciOptionValue = number | boolean | string;
+
+export type UciOptionValues = Record<string, UciOptionValue>;
+
+export interface EngineBenchmarkResult {
+  engine: EngineName;
+  loadTime: number;
+  nps: number;
+}
+
+export interface EngineBenchmark {
+  date: string;
+  results: EngineBenchmarkResult[];
+  workersNps: Record<number, number>;
+  recommendedEngine: EngineName;
+  recommendedWorkersNb: number;
+}
+
+export interface MatchSide {
+  engine: EngineName;
+  depth: number;
+  movetime?: number;
+  elo?: number;
+}
+
+export interface MatchGame {
+  pgn: string;
+  // Score of the first engine: 1 for a win, 0.5 for a draw, 0 for a loss
+  score: number;
+}
+
+export interface MatchResult {
+  games: MatchGame[];
+  wins: number;
+  draws: number;
+  losses: number;
+  eloDiff: number;
+  eloError: number;
 }
@@ -12,6 +12,7 @@ export enum EngineName {
   Stockfish16NNUE = "stockfish_16_nnue",
   Stockfish16 = "stockfish_16",
   Stockfish11 = "stockfish_11",
+  Remote = "remote",
 }
 
 export enum MoveClassification {
@@ -25,6 +26,34 @@ export enum MoveClassification {
   Opening = "opening",
   Perfect = "perfect",
   Splendid = "splendid",
+  Great = "great",
+  Miss = "miss",
+}
+
+export enum ClassificationProfile {
+  Beginner = "beginner",
+  Club = "club",
+  Advanced = "advanced",
+  Master = "master",
+}
+
+export enum GamePhase {
+  Opening = "opening",
+  Middlegame = "middlegame",
+  Endgame = "endgame",
+}
+
+export enum TimeControlCategory {
+  Bullet = "bullet",
+  Blitz = "blitz",
+  Rapid = "rapid",
+  Classical = "classical",
+}
+
+export enum KeyMomentType {
+  MissedWin = "missed_win",
+  OutcomeChange = "outcome_change",
+  Drop = "drop",
 }
 
 export enum Color {
@@ -1,17 +1,35 @@
 import { Move } from "chess.js";
-import { EngineName, MoveClassification } from "./enums";
+import {
+  ClassificationProfile,
+  EngineName,
+  GamePhase,
+  KeyMomentType,
+  MoveClassification,
+  TimeControlCategory,
+} from "./enums";
 
-export interface PositionEval {
+export interface SearchStats {
+  seldepth?: number;
+  nodes?: number;
+  nps?: number;
+  time?: number;
+  hashfull?: number;
+  tbhits?: number;
+}
+
+export interface PositionEval extends SearchStats {
   bestMove?: string;
   moveClassification?: MoveClassification;
   opening?: string;
   lines: LineEval[];
 }
 
-export interface LineEval {
+export interface LineEval extends SearchStats {
   pv: string[];
   cp?: number;
   mate?: number;
+  // Win, draw and loss chances in per mille, from white's point of view
+  wdl?: [number, number, number];
   depth: number;
   multiPv: number;
 }
@@ -21,21 +39,66 @@ export interface Accuracy {
   black: number;
 }
 
+export interface EloRange {
+  min: number;
+  max: number;
+}
+
 export interface EstimatedElo {
   white: number;
   black: number;
+  // 95% confidence intervals, missing from evaluations saved before they existed
+  whiteRange?: EloRange;
+  blackRange?: EloRange;
+  timeControlCategory?: TimeControlCategory;
+}
+
+export interface SearchLimits {
+  movetime?: number;
+  nodes?: number;
+  totalTime?: number;
 }
 
-export interface EngineSettings {
+export interface EngineSettings extends SearchLimits {
   engine: EngineName;
   depth: number;
   multiPv: number;
+  adaptiveDepth?: boolean;
+  classificationProfile?: ClassificationProfile;
   date: string;
 }
 
+export interface PlayerPhaseStats {
+  movesNb: number;
+  // Undefined when the player made no move in the phase
+  accuracy?: number;
+  averageCpl?: number;
+  classifications: Partial<Record<MoveClassification, number>>;
+}
+
+export type GamePhasesStats = Record<
+  GamePhase,
+  { white: PlayerPhaseStats; black: PlayerPhaseStats }
+>;
+
+export interface KeyMoment {
+  // Index of the position reached by the move
+  positionIdx: number;
+  type: KeyMomentType;
+  // From white's point of view
+  winPercentageBefore: number;
+  winPercentageAfter: number;
+  evalBefore: Pick<LineEval, "cp" | "mate">;
+  evalAfter: Pick<LineEval, "cp" | "mate">;
+  // Engine line in the position before the move, as stored in its LineEval pv
+  bestLine: string[];
+}
+
 export interface GameEval {
   positions: PositionEval[];
   accuracy: Accuracy;
+  phases?: GamePhasesStats;
+  keyMoments?: KeyMoment[];
   estimatedElo?: EstimatedElo;
   settings: EngineSettings;
 }
@@ -44,9 +107,33 @@ export interface EvaluatePositionWithUpdateParams {
   fen: string;
   depth?: number;
   multiPv?: number;
+  movetime?: number;
+  nodes?: number;
+  infinite?: boolean;
+  // Search with several threads of a single worker, when supported by the engine
+  threadsNb?: number;
+  // The lichess cloud eval is returned instead when it is deep enough
+  checkLichessEval?: boolean;
+  signal?: AbortSignal;
   setPartialEval?: (positionEval: PositionEval) => void;
 }
 
+export interface PositionThreat {
+  // Position with the turn passed to the opponent, the line is played from it
+  fen: string;
+  line: LineEval;
+}
+
+export interface CandidateMoves {
+  fen: string;
+  moves: string[];
+}
+
+export interface CandidateMoveEval {
+  move: string;
+  line: LineEval;
+}
+
 export interface CurrentPosition {
   lastMove?: Move;
   eval?: PositionEval;
@@ -55,14 +142,25 @@ export interface CurrentPosition {
   opening?: string;
 }
 
-export interface EvaluateGameParams {
+export interface EvaluateGameParams extends SearchLimits {
   fens: string[];
   uciMoves: string[];
   depth?: number;
   multiPv?: number;
   setEvaluationProgress?: (value: number) => void;
   playersRatings?: { white?: number; black?: number };
+  // PGN TimeControl header, used to calibrate the estimated Elo
+  timeControl?: string;
+  // Chosen from the players ratings when not set
+  classificationProfile?: ClassificationProfile;
   workersNb?: number;
+  adaptiveDepth?: boolean;
+  // Already evaluated positions, from an interrupted analysis
+  initialPositions?: (PositionEval | undefined)[];
+  onPositionEval?: (index: number, positionEval: PositionEval) => void;
+  // Positions of this evaluation deep enough for the new settings are reused
+  previousGameEval?: GameEval;
+  signal?: AbortSignal;
 }
 
 export interface SavedEval {
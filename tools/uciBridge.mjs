@@ -0,0 +1,255 @@
+#!/usr/bin/env node
+// Exposes a local UCI engine binary over WebSocket, to be used as the "Remote engine" in the app.
+// Each connection spawns its own engine process, commands are piped to its stdin
+// and every stdout line is sent back as a text message.
+//
+// Only pages served from an allowed origin can connect, as any website could otherwise
+// drive the engine process. Repeat --origin to allow several ones.
+//
+// Usage: node tools/uciBridge.mjs [--port 8080] [--host 127.0.0.1] [--origin https://app.example] -- /path/to/stockfish [engine args]
+
+import { spawn } from "node:child_process";
+import { createHash } from "node:crypto";
+import { createServer } from "node:http";
+import { createInterface } from "node:readline";
+
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const OPCODES = {
+  continuation: 0x0,
+  text: 0x1,
+  close: 0x8,
+  ping: 0x9,
+  pong: 0xa,
+};
+
+// The app served by `npm run dev`
+const DEFAULT_ALLOWED_ORIGINS = [
+  "http://localhost:3000",
+  "http://127.0.0.1:3000",
+];
+
+// Options such as "Debug Log File" or "SyzygyPath" read or write files on the host
+const FILE_OPTION_NAME_REGEX = /file|path|dir/i;
+
+const parseArgs = (argv) => {
+  const separatorIndex = argv.indexOf("--");
+  const options = separatorIndex === -1 ? argv : argv.slice(0, separatorIndex);
+  const command = separatorIndex === -1 ? [] : argv.slice(separatorIndex + 1);
+
+  const getOptionValues = (name) =>
+    options.flatMap((option, index) =>
+      option === `--${name}` && options[index + 1] !== undefined
+        ? [options[index + 1]]
+        : []
+    );
+
+  const getOption = (name, defaultValue) =>
+    getOptionValues(name)[0] ?? defaultValue;
+
+  const origins = getOptionValues("origin");
+
+  return {
+    port: Number(getOption("port", 8080)),
+    host: getOption("host", "127.0.0.1"),
+    allowedOrigins: origins.length ? origins : DEFAULT_ALLOWED_ORIGINS,
+    command,
+  };
+};
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+
+  return Buffer.concat([header, payload]);
+};
+
+// Returns the frames fully contained in the buffer and the remaining bytes
+const decodeFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+
+  while (buffer.length - offset >= 2) {
+    const isFinal = (buffer[offset] & 0x80) !== 0;
+    const opcode = buffer[offset] & 0x0f;
+    const isMasked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let headerLength = 2;
+
+    if (length === 126) {
+      if (buffer.length - offset < 4) break;
+      length = buffer.readUInt16BE(offset + 2);
+      headerLength = 4;
+    } else if (length === 127) {
+      if (buffer.length - offset < 10) break;
+      length = Number(buffer.readBigUInt64BE(offset + 2));
+      headerLength = 10;
+    }
+
+    const maskLength = isMasked ? 4 : 0;
+    const frameLength = headerLength + maskLength + length;
+    if (buffer.length - offset < frameLength) break;
+
+    const payload = Buffer.from(
+      buffer.subarray(offset + headerLength + maskLength, offset + frameLength)
+    );
+    if (isMasked) {
+      const mask = buffer.subarray(
+        offset + headerLength,
+        offset + headerLength + 4
+      );
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+
+    frames.push({ isFinal, opcode, payload });
+    offset += frameLength;
+  }
+
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+const handleConnection = (socket, command, head) => {
+  const [binary, ...args] = command;
+  const engine = spawn(binary, args, { stdio: ["pipe", "pipe", "inherit"] });
+  console.log(`Engine ${binary} started (pid ${engine.pid})`);
+
+  const send = (opcode, payload) => {
+    if (!socket.destroyed) socket.write(encodeFrame(opcode, payload));
+  };
+
+  const close = () => {
+    send(OPCODES.close, Buffer.alloc(0));
+    socket.end();
+    if (engine.exitCode === null) engine.kill();
+  };
+
+  createInterface({ input: engine.stdout }).on("line", (line) => {
+    send(OPCODES.text, Buffer.from(line));
+  });
+
+  engine.on("error", (error) => {
+    console.error(`Unable to start ${binary}: ${error.message}`);
+    close();
+  });
+  engine.on("exit", (code) => {
+    console.log(`Engine ${binary} exited with code ${code}`);
+    close();
+  });
+
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+
+  const handleData = (data) => {
+    const { frames, rest } = decodeFrames(Buffer.concat([buffer, data]));
+    buffer = rest;
+
+    for (const { isFinal, opcode, payload } of frames) {
+      if (opcode === OPCODES.close) return close();
+      if (opcode === OPCODES.ping) {
+        send(OPCODES.pong, payload);
+        continue;
+      }
+      if (opcode !== OPCODES.text && opcode !== OPCODES.continuation) {
+        continue;
+      }
+
+      fragments.push(payload);
+      if (!isFinal) continue;
+
+      const message = Buffer.concat(fragments).toString();
+      fragments = [];
+      if (isFileOptionCommand(message)) {
+        console.warn(`Ignored command touching the file system: ${message}`);
+        continue;
+      }
+      if (engine.stdin.writable) engine.stdin.write(`${message}\n`);
+    }
+  };
+
+  // Frames sent right after the handshake may already be in the upgrade head
+  if (head.length) handleData(head);
+  socket.on("data", handleData);
+
+  socket.on("close", () => {
+    if (engine.exitCode === null) engine.kill();
+  });
+  socket.on("error", () => socket.destroy());
+};
+
+const isFileOptionCommand = (message) =>
+  message.split("\n").some((line) => {
+    const [keyword, nameKeyword, ...rest] = line.trim().split(/\s+/);
+    if (keyword !== "setoption" || nameKeyword !== "name") return false;
+
+    const valueIndex = rest.indexOf("value");
+    const optionName = (
+      valueIndex === -1 ? rest : rest.slice(0, valueIndex)
+    ).join(" ");
+    return FILE_OPTION_NAME_REGEX.test(optionName);
+  });
+
+const { port, host, allowedOrigins, command } = parseArgs(
+  process.argv.slice(2)
+);
+
+if (!command.length) {
+  console.error(
+    "Usage: node tools/uciBridge.mjs [--port 8080] [--host 127.0.0.1] [--origin https://app.example] -- /path/to/engine [args]"
+  );
+  process.exit(1);
+}
+
+const server = createServer((_, res) => {
+  res.writeHead(426, { "Content-Type": "text/plain" });
+  res.end("UCI bridge, connect with a WebSocket client");
+});
+
+server.on("upgrade", (req, socket, head) => {
+  const key = req.headers["sec-websocket-key"];
+  if (req.headers.upgrade?.toLowerCase() !== "websocket" || !key) {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return;
+  }
+
+  const origin = req.headers.origin;
+  if (!origin || !allowedOrigins.includes(origin)) {
+    console.warn(`Rejected connection from origin ${origin ?? "(none)"}`);
+    socket.end("HTTP/1.1 403 Forbidden\r\n\r\n");
+    return;
+  }
+
+  const accept = createHash("sha1")
+    .update(key + WEBSOCKET_GUID)
+    .digest("base64");
+  socket.write(
+    [
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${accept}`,
+      "\r\n",
+    ].join("\r\n")
+  );
+
+  handleConnection(socket, command, head);
+});
+
+server.listen(port, host, () => {
+  console.log(
+    `UCI bridge listening on ws://${host}:${port} for ${command.join(" ")}`
+  );
+  console.log(`Allowed origins: ${allowedOrigins.join(", ")}`);
+});